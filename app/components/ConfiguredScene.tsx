@@ -0,0 +1,206 @@
+'use client'
+
+import {
+  Suspense,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+  type Ref,
+  type RefObject,
+} from 'react'
+import { useFrame } from '@react-three/fiber'
+import { OrbitControls, PerspectiveCamera, View } from '@react-three/drei'
+import * as THREE from 'three'
+import { Model, type ModelProps } from './Model'
+import { ModelErrorBoundary, ModelLoadingFallback } from './ModelFallback'
+import { ScrollTimelineGroup } from './ScrollTimelineGroup'
+import type { CameraConfig, LightConfig, SceneConfig } from './sceneConfig'
+import type { ScrollTimeline, ScrollTracks } from './scrollTimeline'
+import { dampColor, type ScenePalette } from './theme'
+import { DEFAULT_PERFORMANCE_BUDGET, getQuality } from './adaptiveQuality'
+import {
+  useActiveView,
+  useQualityFactor,
+  ViewElementContext,
+} from './SceneCanvas'
+
+// Live values layered over a configured model, such as scroll-driven rotation
+export interface SceneModelOverride {
+  position?: [number, number, number]
+  model?: Partial<ModelProps>
+  scroll?: { timeline: RefObject<ScrollTimeline>; tracks: ScrollTracks }
+  // The model's positioned group, for moving it per frame
+  groupRef?: Ref<THREE.Group>
+}
+
+interface ConfiguredSceneProps {
+  config: SceneConfig
+  // Replaces config.description when the scene is showing something else
+  description?: string
+  camera?: Partial<CameraConfig>
+  // Theme colors for every model and the background
+  palette?: ScenePalette
+  // Still models, and scroll timelines left alone
+  reducedMotion?: boolean
+  // Matched to config.models by index
+  models?: Array<SceneModelOverride | undefined>
+  poster?: string
+  children?: ReactNode
+}
+
+function Light({ light }: { light: LightConfig }) {
+  const { type, ...props } = light
+  switch (type) {
+    case 'ambient':
+      return <ambientLight {...props} />
+    case 'directional':
+      return <directionalLight {...props} />
+    default:
+      return <pointLight {...props} />
+  }
+}
+
+const BACKGROUND_TRANSITION_SPEED = 4
+
+// Eases the clear color to the palette, with fog fading into it
+function SceneBackground({ color }: { color: string }) {
+  const target = useMemo(() => new THREE.Color(color), [color])
+
+  useFrame(({ scene }, delta) => {
+    if (!(scene.background instanceof THREE.Color)) {
+      scene.background = target.clone()
+    }
+    dampColor(scene.background, target, BACKGROUND_TRANSITION_SPEED, delta)
+    scene.fog?.color.copy(scene.background)
+  })
+
+  return null
+}
+
+// Whether the element is on screen, or about to be
+function useInView(element: Element | null) {
+  const [inView, setInView] = useState(true)
+
+  useEffect(() => {
+    if (!element) return
+
+    const observer = new IntersectionObserver(
+      ([entry]) => setInView(entry.isIntersecting),
+      { rootMargin: '100px' },
+    )
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [element])
+
+  return inView
+}
+
+// Renders a validated scene config in a view on the shared SceneCanvas:
+// camera, controls, lights, fog and models. Offscreen its models pause, and
+// the canvas's quality level is spread over config.performance's particle
+// density and physics rates
+export function ConfiguredScene({
+  config,
+  description = config.description,
+  camera,
+  palette,
+  reducedMotion = false,
+  models = [],
+  poster,
+  children,
+}: ConfiguredSceneProps) {
+  const [viewElement, setViewElement] = useState<HTMLDivElement | null>(null)
+  const inView = useInView(viewElement)
+  useActiveView(inView)
+  const budget = { ...DEFAULT_PERFORMANCE_BUDGET, ...config.performance }
+  const quality = getQuality(budget, useQualityFactor())
+
+  return (
+    <div ref={setViewElement} className="w-full h-full">
+      {/* A sibling of the view, since an image's children are hidden from
+          screen readers and the error overlay's retry button lives there */}
+      <div role="img" aria-label={description} className="sr-only" />
+      <View className="w-full h-full">
+        <ViewElementContext.Provider value={viewElement}>
+          <PerspectiveCamera makeDefault {...config.camera} {...camera} />
+          {palette && <SceneBackground color={palette.background} />}
+          {config.controls && (
+            <OrbitControls
+              {...config.controls}
+              domElement={viewElement ?? undefined}
+            />
+          )}
+
+          {config.lights?.map((light, i) => (
+            <Light key={i} light={light} />
+          ))}
+          {config.fog && (
+            <fog
+              attach="fog"
+              args={[config.fog.color, config.fog.near, config.fog.far]}
+            />
+          )}
+
+          {config.models.map((entry, i) => {
+            const override = models[i]
+            const props: ModelProps = {
+              ...entry.model,
+              ...(palette && {
+                particleColor: palette.particleColor,
+                gradientColors: palette.gradientColors,
+                meshColor: palette.meshColor,
+                particleBlending: palette.particleBlending,
+              }),
+              particleDensity: quality.particleDensity,
+              physicsRate: quality.physicsRate,
+              reducedMotion,
+              paused: !inView,
+              ...override?.model,
+            }
+
+            const group = (
+              <group
+                key={i}
+                ref={override?.groupRef}
+                position={override?.position ?? entry.position}
+                scale={entry.scale}
+              >
+                <ModelErrorBoundary
+                  modelPath={props.modelPath}
+                  format={props.format}
+                  poster={poster}
+                >
+                  <Suspense
+                    fallback={
+                      <ModelLoadingFallback
+                        modelPath={props.modelPath}
+                        poster={poster}
+                      />
+                    }
+                  >
+                    <Model {...props} />
+                  </Suspense>
+                </ModelErrorBoundary>
+              </group>
+            )
+
+            return override?.scroll && !reducedMotion ? (
+              <ScrollTimelineGroup
+                key={i}
+                timeline={override.scroll.timeline}
+                tracks={override.scroll.tracks}
+              >
+                {group}
+              </ScrollTimelineGroup>
+            ) : (
+              group
+            )
+          })}
+
+          {children}
+        </ViewElementContext.Provider>
+      </View>
+    </div>
+  )
+}
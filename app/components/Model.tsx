@@ -1,20 +1,80 @@
 'use client'
 
-import { useRef, useEffect } from 'react'
-import { useFrame, useLoader } from '@react-three/fiber'
+import {
+  use,
+  useRef,
+  useEffect,
+  useDeferredValue,
+  useImperativeHandle,
+  useMemo,
+  useState,
+  type Ref,
+  type RefObject,
+} from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
 import * as THREE from 'three'
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
-import { Particles } from './Particles'
+import { Particles, type ParticlesController } from './Particles'
+import type { ModelFormat } from './modelLoaders'
+import { dampColor } from './theme'
+import { cloneModel, disposeModelClone, loadModel } from './modelAssets'
+import {
+  applyMeshMaterial,
+  createMeshMaterial,
+  setMeshMaterialColor,
+  loadMatcapTexture,
+  restoreMeshMaterials,
+  type MeshMode,
+} from './meshMaterials'
+import type { ParticleTransition } from './particleMorph'
+import type { GradientMode, GradientStop } from './particleGradients'
+import type { ParticleBlending, SpriteShape } from './particleSprites'
+import type { InteractionDepth, InteractionPlane } from './particlePointers'
+import type { ParticleEffector } from './particleEffectors'
+import { getGaitBlend, sortGaits, type Gait } from './gait'
+import {
+  DEFAULT_LOOK_AT_LIMITS,
+  getJumpOffset,
+  getLookAngles,
+  hitObject,
+  turnBone,
+  type ClickReaction,
+  type LookAt,
+} from './modelBehaviors'
+import { useCanvasPointer } from './useCanvasPointer'
+import {
+  useAnimationController,
+  type AnimationController,
+  type AnimationLoop,
+} from './useAnimationController'
 
-interface ModelProps {
+export interface ModelProps {
   modelPath: string
+  format?: ModelFormat
   particleColor?: string
   particleSize?: number
+  particleSizeVariance?: number
+  particleRotationVariance?: number
+  spriteShape?: SpriteShape
+  spriteTexture?: string | null
+  spriteAtlas?: [number, number]
+  particleBlending?: ParticleBlending
+  focusDistance?: number
+  aperture?: number
+  depthFade?: [number, number] | null
+  fog?: boolean
+  sampling?: 'vertex' | 'surface'
   sampleRate?: number
+  particleCount?: number
+  particleSeed?: number
   animated?: boolean
   showMesh?: boolean
+  meshMode?: MeshMode
   meshOpacity?: number
   meshColor?: string
+  meshRimColor?: string
+  meshRimPower?: number
+  meshScanlines?: number
+  meshMatcap?: string
   rotation?: [number, number, number]
   autoRotate?: boolean
   rotationSpeed?: number
@@ -22,25 +82,84 @@ interface ModelProps {
   disperseRadius?: number
   disperseStrength?: number
   returnSpeed?: number
+  drift?: boolean
+  driftAmplitude?: number
+  driftFrequency?: number
+  driftSpeed?: number
+  interactionDepth?: InteractionDepth
+  interactionPlane?: InteractionPlane | null
+  physics?: 'auto' | 'cpu' | 'gpu'
+  effectors?: ParticleEffector[]
   use3DGradient?: boolean
   gradientColors?: Array<{
     color: string
     position: [number, number, number]
   }> | null
   gradientBlendPower?: number
+  gradientMode?: GradientMode
+  gradientStops?: GradientStop[] | null
+  gradientAxis?: [number, number, number]
+  gradientCenter?: [number, number, number]
+  gradientRadius?: number
+  gradientNoiseScale?: number
+  gradientSpeed?: number
+  // How quickly particle and mesh colors ease to new values, 0 snaps
+  colorTransitionSpeed?: number
+  // Share of particles drawn and simulated, lowered on slow devices
+  particleDensity?: number
+  // Physics steps per second, 0 for every frame
+  physicsRate?: number
+  // Holds the pose and stops the pulse, drift, dispersion and rotation
+  reducedMotion?: boolean
+  // Skips all per-frame work, for scenes scrolled out of view
+  paused?: boolean
   playAnimation?: boolean
   animationIndex?: number
+  clip?: string
+  crossfadeDuration?: number
+  animationTimeScale?: number
+  animationLoop?: AnimationLoop
+  // Moving clips blended and paced by groundSpeed, read every frame
+  gaits?: Gait[] | null
+  groundSpeed?: RefObject<number> | null
+  lookAt?: LookAt | null
+  reaction?: ClickReaction | null
+  onAnimationLoop?: (clip: string) => void
+  onAnimationFinished?: (clip: string) => void
+  transition?: ParticleTransition | null
+  ref?: Ref<AnimationController>
 }
 
+const _hit = new THREE.Vector3()
+
 export function Model({
   modelPath,
+  format,
   particleColor = '#00ffff',
   particleSize = 0.03,
+  particleSizeVariance = 0,
+  particleRotationVariance = 0,
+  spriteShape = 'circle',
+  spriteTexture = null,
+  spriteAtlas = [1, 1],
+  particleBlending = 'additive',
+  focusDistance = 10,
+  aperture = 0,
+  depthFade = null,
+  fog = true,
+  sampling = 'vertex',
   sampleRate = 1,
+  particleCount = 20000,
+  particleSeed = 1,
   animated = false,
   showMesh = true,
+  meshMode = 'standard',
   meshOpacity = 0.3,
   meshColor = '#001a33',
+  meshRimColor = '#00ffff',
+  meshRimPower = 2.0,
+  meshScanlines = 0.5,
+  meshMatcap = '/texture.jpeg',
   rotation,
   autoRotate = false,
   rotationSpeed = 0.3,
@@ -48,60 +167,183 @@ export function Model({
   disperseRadius = 2.0,
   disperseStrength = 1.5,
   returnSpeed = 3.0,
+  drift = false,
+  driftAmplitude = 0.02,
+  driftFrequency = 2.0,
+  driftSpeed = 0.2,
+  interactionDepth = 'bounds',
+  interactionPlane = null,
+  physics = 'auto',
+  effectors,
   use3DGradient = false,
   gradientColors = null,
   gradientBlendPower = 2.0,
+  gradientMode = 'points',
+  gradientStops = null,
+  gradientAxis = [0, 1, 0],
+  gradientCenter = [0.5, 0.5, 0.5],
+  gradientRadius = 0.5,
+  gradientNoiseScale = 3.0,
+  gradientSpeed = 0,
+  colorTransitionSpeed = 4,
+  particleDensity = 1,
+  physicsRate = 0,
+  reducedMotion = false,
+  paused = false,
   playAnimation = true,
   animationIndex = 0,
+  clip,
+  crossfadeDuration = 0.3,
+  animationTimeScale = 1,
+  animationLoop = 'repeat',
+  gaits = null,
+  groundSpeed = null,
+  lookAt = null,
+  reaction = null,
+  onAnimationLoop,
+  onAnimationFinished,
+  transition = null,
+  ref,
 }: ModelProps) {
   const groupRef = useRef<THREE.Group>(null)
-  const mixerRef = useRef<THREE.AnimationMixer | null>(null)
-  const gltf = useLoader(GLTFLoader, modelPath)
+  const particlesRef = useRef<ParticlesController>(null)
+  const headRef = useRef<THREE.Object3D | null>(null)
+  // The look-at turn so far, and the bone's pose before it was added
+  const lookRef = useRef({
+    yaw: 0,
+    pitch: 0,
+    base: new THREE.Quaternion(),
+    posed: false,
+  })
+  // Whether the gaits had weight last frame, so stopping clears it once
+  const gaitsMovingRef = useRef(false)
+  // Seconds into the current jump
+  const jumpRef = useRef<number | null>(null)
+  const [reacting, setReacting] = useState(false)
+  const meshMaterialRef = useRef<THREE.Material | null>(null)
+  // The mesh color on screen, eased toward meshColor
+  const meshColorRef = useRef(new THREE.Color(meshColor))
+  // Keep showing the current model while the next one loads, so its
+  // particles can morph instead of suspending
+  const loadedPath = useDeferredValue(modelPath)
+  const loadedFormat = useDeferredValue(format)
+  const gl = useThree((state) => state.gl)
+  const loaded = use(loadModel(loadedPath, loadedFormat, gl))
+  // Our own copy of the cached asset, so several Models animate independently
+  const model = useMemo(() => cloneModel(loaded), [loaded])
 
-  // Apply material to mesh
   useEffect(() => {
-    if (gltf && showMesh) {
-      const meshMaterial = new THREE.MeshStandardMaterial({
-        color: meshColor,
-        transparent: meshOpacity < 1,
-        opacity: meshOpacity,
-        side: THREE.DoubleSide,
-      })
-
-      gltf.scene.traverse((child) => {
-        if (child instanceof THREE.Mesh) {
-          child.material = meshMaterial
-          child.castShadow = true
-          child.receiveShadow = true
-        }
-      })
+    return () => disposeModelClone(model)
+  }, [model])
 
-      return () => {
-        meshMaterial.dispose()
-      }
+  const matcapTexture = useMemo(
+    () => (meshMode === 'matcap' ? loadMatcapTexture(meshMatcap) : null),
+    [meshMode, meshMatcap],
+  )
+
+  useEffect(() => {
+    return () => {
+      matcapTexture?.dispose()
     }
-  }, [gltf, meshColor, meshOpacity, showMesh])
+  }, [matcapTexture])
 
-  // Setup animation
+  // Apply the mesh mode's material, putting the loaded ones back on change
   useEffect(() => {
-    if (!gltf || !playAnimation) return
+    if (!showMesh) return
 
-    if (gltf.animations && gltf.animations.length > 0) {
-      const mixer = new THREE.AnimationMixer(gltf.scene)
-      mixerRef.current = mixer
+    const material = createMeshMaterial(meshMode, {
+      color: meshColorRef.current,
+      opacity: meshOpacity,
+      rimColor: meshRimColor,
+      rimPower: meshRimPower,
+      scanlines: meshScanlines,
+      matcap: matcapTexture,
+    })
+    applyMeshMaterial(model.scene, material)
+    meshMaterialRef.current = material
 
-      const clipIndex = Math.min(animationIndex, gltf.animations.length - 1)
-      const clip = gltf.animations[clipIndex]
-      const action = mixer.clipAction(clip)
+    return () => {
+      restoreMeshMaterials(model.scene)
+      material?.dispose()
+      meshMaterialRef.current = null
+    }
+  }, [
+    model,
+    showMesh,
+    meshMode,
+    meshOpacity,
+    meshRimColor,
+    meshRimPower,
+    meshScanlines,
+    matcapTexture,
+  ])
 
-      action.play()
+  const meshColorTarget = useMemo(() => new THREE.Color(meshColor), [meshColor])
 
-      return () => {
-        mixer.stopAllAction()
-        mixerRef.current = null
-      }
+  // Clips by name, with crossfades and loop events
+  const animation = useAnimationController(model.scene, model.animations, {
+    onLoop: onAnimationLoop,
+    onFinished: (finished) => {
+      if (finished === reaction?.clip) setReacting(false)
+      onAnimationFinished?.(finished)
+    },
+  })
+  useImperativeHandle(ref, () => animation, [animation])
+
+  const clipIndex = Math.min(animationIndex, animation.clips.length - 1)
+  const activeClip = playAnimation
+    ? (clip ?? animation.clips[clipIndex] ?? null)
+    : null
+
+  // A reaction clip plays once, then the active clip takes over again
+  const reactionClip = reacting ? (reaction?.clip ?? null) : null
+  const playingClip = reactionClip ?? activeClip
+
+  useEffect(() => {
+    if (!playingClip) {
+      animation.stop(crossfadeDuration)
+      return
+    }
+    animation.play(playingClip, {
+      fade: crossfadeDuration,
+      // A still frame of the clip rather than the bind pose
+      timeScale: reducedMotion ? 0 : reactionClip ? 1 : animationTimeScale,
+      loop: reactionClip ? 'once' : animationLoop,
+    })
+  }, [
+    animation,
+    playingClip,
+    reactionClip,
+    crossfadeDuration,
+    animationTimeScale,
+    animationLoop,
+    reducedMotion,
+  ])
+
+  const sortedGaits = useMemo(() => (gaits ? sortGaits(gaits) : null), [gaits])
+  // A model with only gait clips would fade into its bind pose, so its
+  // slowest gait keeps full weight instead
+  const gaitsFadeOut =
+    sortedGaits !== null &&
+    animation.clips.some(
+      (clip) => !sortedGaits.some((gait) => gait.clip === clip),
+    )
+
+  // Look-at and click reactions follow the pointer over this canvas
+  const pointerRef = useCanvasPointer(
+    !reducedMotion && (lookAt !== null || reaction !== null),
+  )
+  const lookAtBone = lookAt?.bone ?? null
+
+  useEffect(() => {
+    headRef.current = lookAtBone
+      ? (model.scene.getObjectByName(lookAtBone) ?? null)
+      : null
+    lookRef.current.posed = false
+    if (lookAtBone && !headRef.current) {
+      console.warn(`Model: no bone named "${lookAtBone}" to look with`)
     }
-  }, [gltf, playAnimation, animationIndex])
+  }, [model, lookAtBone])
 
   // Apply rotation
   useEffect(() => {
@@ -111,32 +353,161 @@ export function Model({
   }, [rotation])
 
   // Animation loop
-  useFrame((_, delta) => {
-    if (mixerRef.current) {
-      mixerRef.current.update(delta)
+  useFrame((state, delta) => {
+    if (paused) return
+
+    // Undo last frame's look-at turn, in case the clip doesn't move the bone
+    const head = headRef.current
+    const look = lookRef.current
+    if (head && look.posed) head.quaternion.copy(look.base)
+
+    // Gaits the loaded model doesn't have are left out. Standing still they
+    // stay at the zero weight they faded to, and other clips are left alone
+    if (sortedGaits && groundSpeed && !reducedMotion && !reacting) {
+      const moving = groundSpeed.current > 0
+      if (moving || gaitsMovingRef.current) {
+        for (const blend of getGaitBlend(
+          sortedGaits,
+          groundSpeed.current,
+          gaitsFadeOut,
+        )) {
+          if (!animation.getAction(blend.clip)) continue
+          animation.setWeight(blend.clip, blend.weight)
+          animation.setTimeScale(blend.timeScale, blend.clip)
+        }
+      }
+      gaitsMovingRef.current = moving
     }
+    animation.mixer.update(delta)
 
-    if (groupRef.current && autoRotate && rotationSpeed > 0) {
+    // Scroll the hologram scanlines
+    const meshMaterial = meshMaterialRef.current
+    if (meshMaterial instanceof THREE.ShaderMaterial) {
+      meshMaterial.uniforms.time.value += delta
+    }
+
+    // Ease the mesh into a new color
+    if (meshMaterial) {
+      dampColor(
+        meshColorRef.current,
+        meshColorTarget,
+        colorTransitionSpeed,
+        delta,
+      )
+      setMeshMaterialColor(meshMaterial, meshColorRef.current)
+    }
+
+    if (groupRef.current && autoRotate && !reducedMotion && rotationSpeed > 0) {
       groupRef.current.rotation.y += delta * rotationSpeed
     }
+
+    const group = groupRef.current
+    const pointer = pointerRef.current
+    if (!group) return
+
+    // Ease the head toward the pointer, and back to the clip's pose when
+    // the pointer leaves
+    if (head && lookAt) {
+      const angles =
+        pointer.active && !reducedMotion
+          ? getLookAngles(head, group, pointer.ndc, state.camera, lookAt)
+          : null
+      const speed = lookAt.speed ?? DEFAULT_LOOK_AT_LIMITS.speed
+      const { damp } = THREE.MathUtils
+      look.yaw =
+        speed > 0
+          ? damp(look.yaw, angles?.yaw ?? 0, speed, delta)
+          : (angles?.yaw ?? 0)
+      look.pitch =
+        speed > 0
+          ? damp(look.pitch, angles?.pitch ?? 0, speed, delta)
+          : (angles?.pitch ?? 0)
+      look.base.copy(head.quaternion)
+      look.posed = true
+      turnBone(head, group, look.yaw, look.pitch)
+    }
+
+    // React to clicks and taps that land on the model
+    if (reaction && !reducedMotion) {
+      for (const ndc of pointer.presses) {
+        const hit = hitObject(group, ndc, state.camera, _hit)
+        if (!hit) continue
+        if (reaction.jumpHeight) jumpRef.current = 0
+        if (reaction.burst) {
+          particlesRef.current?.burst(
+            { type: 'shockwave', ...reaction.burst },
+            hit,
+          )
+        }
+        if (reaction.clip && animation.getAction(reaction.clip)) {
+          setReacting(true)
+        }
+      }
+    }
+    pointer.presses.length = 0
+
+    if (jumpRef.current !== null && reaction) {
+      const duration = reaction.jumpDuration ?? 0.5
+      jumpRef.current += delta
+      group.position.y = getJumpOffset(
+        reaction.jumpHeight ?? 0,
+        duration,
+        jumpRef.current,
+      )
+      if (jumpRef.current >= duration) jumpRef.current = null
+    }
   })
 
   return (
     <group ref={groupRef}>
-      {showMesh && <primitive object={gltf.scene} />}
+      {showMesh && !model.isPointCloud && <primitive object={model.scene} />}
       <Particles
-        object={gltf.scene}
+        ref={particlesRef}
+        paused={paused}
+        object={model.scene}
         color={particleColor}
         size={particleSize}
+        sizeVariance={particleSizeVariance}
+        rotationVariance={particleRotationVariance}
+        spriteShape={spriteShape}
+        spriteTexture={spriteTexture}
+        spriteAtlas={spriteAtlas}
+        blending={particleBlending}
+        focusDistance={focusDistance}
+        aperture={aperture}
+        depthFade={depthFade}
+        fog={fog}
+        sampling={sampling}
         sampleRate={sampleRate}
-        animated={animated}
-        interactive={interactive}
+        particleCount={particleCount}
+        seed={particleSeed}
+        animated={animated && !reducedMotion}
+        interactive={interactive && !reducedMotion}
         disperseRadius={disperseRadius}
         disperseStrength={disperseStrength}
         returnSpeed={returnSpeed}
+        drift={drift && !reducedMotion}
+        driftAmplitude={driftAmplitude}
+        driftFrequency={driftFrequency}
+        driftSpeed={driftSpeed}
+        interactionDepth={interactionDepth}
+        interactionPlane={interactionPlane}
+        physics={physics}
+        effectors={effectors}
         use3DGradient={use3DGradient}
         gradientColors={gradientColors}
         gradientBlendPower={gradientBlendPower}
+        gradientMode={gradientMode}
+        gradientStops={gradientStops}
+        gradientAxis={gradientAxis}
+        gradientCenter={gradientCenter}
+        gradientRadius={gradientRadius}
+        gradientNoiseScale={gradientNoiseScale}
+        gradientSpeed={reducedMotion ? 0 : gradientSpeed}
+        colorTransitionSpeed={colorTransitionSpeed}
+        density={particleDensity}
+        physicsRate={physicsRate}
+        transition={reducedMotion ? null : transition}
       />
     </group>
   )
@@ -0,0 +1,143 @@
+'use client'
+
+import { Component, useMemo, type ReactNode } from 'react'
+import { Html } from '@react-three/drei'
+import { clearModel } from './modelAssets'
+import type { ModelFormat } from './modelLoaders'
+import { useModelProgress } from './modelProgress'
+import { useViewElement } from './SceneCanvas'
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function Poster({ poster }: { poster?: string }) {
+  if (!poster) return null
+  return (
+    <div
+      className="absolute inset-0 bg-cover bg-center opacity-60"
+      style={{ backgroundImage: `url(${poster})` }}
+    />
+  )
+}
+
+// Overlays the view the model sits in, rather than whichever view the
+// shared canvas connected its events to last
+function ViewHtml({ children }: { children: ReactNode }) {
+  const viewElement = useViewElement()
+  const portal = useMemo(
+    () => (viewElement ? { current: viewElement } : undefined),
+    [viewElement],
+  )
+  return (
+    <Html fullscreen portal={portal}>
+      {children}
+    </Html>
+  )
+}
+
+interface ModelLoadingFallbackProps {
+  modelPath: string
+  poster?: string
+}
+
+// Suspense fallback inside the Canvas, showing real download progress
+export function ModelLoadingFallback({
+  modelPath,
+  poster,
+}: ModelLoadingFallbackProps) {
+  const progress = useModelProgress(modelPath)
+  const percent =
+    progress && progress.total > 0
+      ? Math.round((progress.loaded / progress.total) * 100)
+      : null
+
+  return (
+    <ViewHtml>
+      <div className="relative w-full h-full flex items-center justify-center">
+        <Poster poster={poster} />
+        <div className="relative w-48 space-y-2 text-center">
+          <div className="h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+            <div
+              className="h-full bg-orange-500 transition-[width] duration-200"
+              style={{ width: `${percent ?? 0}%` }}
+            />
+          </div>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {percent !== null
+              ? `Loading model… ${percent}%`
+              : progress
+                ? `Loading model… ${formatBytes(progress.loaded)}`
+                : 'Loading model…'}
+          </p>
+        </div>
+      </div>
+    </ViewHtml>
+  )
+}
+
+interface ModelErrorBoundaryProps {
+  modelPath: string
+  format?: ModelFormat
+  poster?: string
+  children: ReactNode
+}
+
+interface ModelErrorBoundaryState {
+  error: Error | null
+}
+
+// Keeps a missing or corrupt model from taking down the whole Canvas
+export class ModelErrorBoundary extends Component<
+  ModelErrorBoundaryProps,
+  ModelErrorBoundaryState
+> {
+  state: ModelErrorBoundaryState = { error: null }
+
+  static getDerivedStateFromError(error: Error) {
+    return { error }
+  }
+
+  componentDidCatch(error: Error) {
+    console.error(`Model: failed to load ${this.props.modelPath}`, error)
+  }
+
+  componentDidUpdate(previous: ModelErrorBoundaryProps) {
+    // A different model gets a fresh attempt
+    if (this.state.error && previous.modelPath !== this.props.modelPath) {
+      this.setState({ error: null })
+    }
+  }
+
+  retry = () => {
+    // The failure is cached, clear it so the load runs again
+    const { modelPath, format } = this.props
+    clearModel(modelPath, format)
+    this.setState({ error: null })
+  }
+
+  render() {
+    if (!this.state.error) return this.props.children
+
+    return (
+      <ViewHtml>
+        <div className="relative w-full h-full flex items-center justify-center">
+          <Poster poster={this.props.poster} />
+          <div className="relative bg-slate-50 dark:bg-slate-900 px-6 py-4 rounded-2xl shadow-2xl border-2 border-orange-500 max-w-xs text-center space-y-3">
+            <p className="font-bold text-orange-500">
+              The 3D model couldn&apos;t load
+            </p>
+            <button
+              type="button"
+              onClick={this.retry}
+              className="px-4 py-1.5 rounded-full bg-orange-500 hover:bg-orange-600 text-white text-sm font-medium"
+            >
+              Try again
+            </button>
+          </div>
+        </div>
+      </ViewHtml>
+    )
+  }
+}
@@ -0,0 +1,25 @@
+'use client'
+
+import { Pause, Play } from 'lucide-react'
+import { useReducedMotion } from './ReducedMotionProvider'
+
+export function MotionToggle() {
+  const { reducedMotion, toggleReducedMotion } = useReducedMotion()
+
+  return (
+    <button
+      type="button"
+      onClick={toggleReducedMotion}
+      aria-label="Reduce motion"
+      aria-pressed={reducedMotion}
+      title="Reduce motion"
+      className="fixed top-4 right-16 z-50 p-2.5 rounded-full bg-white/80 dark:bg-slate-800/80 backdrop-blur border border-orange-200 dark:border-orange-800 text-orange-500 dark:text-orange-400 shadow-sm hover:scale-105 transition-all"
+    >
+      {reducedMotion ? (
+        <Play className="w-5 h-5" />
+      ) : (
+        <Pause className="w-5 h-5" />
+      )}
+    </button>
+  )
+}
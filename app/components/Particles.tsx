@@ -1,122 +1,319 @@
 'use client'
 
-import { useRef, useEffect, useState, useMemo } from 'react'
+import {
+  useRef,
+  useEffect,
+  useImperativeHandle,
+  useLayoutEffect,
+  useMemo,
+  type Ref,
+} from 'react'
 import { useFrame, useThree } from '@react-three/fiber'
 import * as THREE from 'three'
+import {
+  createParticleSkin,
+  disposeParticleSkin,
+  getSkinnedPosition,
+  skinningParsVertex,
+  updateParticleSkin,
+  type ParticleSkin,
+} from './particleSkinning'
+import {
+  createParticleSimulation,
+  disposeParticleSimulation,
+  getSimulatedDisplacement,
+  getSimulationSize,
+  readSimulatedDisplacement,
+  stepParticleSimulation,
+  type ParticleSimulation,
+} from './particlePhysics'
+import { createRandom, sampleSurface, sampleVertices } from './particleSampling'
+import {
+  PARTICLE_BLENDINGS,
+  SPRITE_SHAPES,
+  getThreeBlending,
+  loadSpriteTexture,
+  spriteParsFragment,
+  type ParticleBlending,
+  type SpriteShape,
+} from './particleSprites'
+import {
+  MAX_POINTERS,
+  TAP_HOLD_TIME,
+  pointerUniformsPars,
+  projectPointer,
+  type ActivePointer,
+  type InteractionDepth,
+  type InteractionPlane,
+} from './particlePointers'
+import {
+  GRADIENT_MODES,
+  MAX_GRADIENT_COLORS,
+  createGradientPoints,
+  createGradientRamp,
+  gradientRampPars,
+  type GradientMode,
+  type GradientStop,
+} from './particleGradients'
+import { driftParsVertex } from './particleDrift'
+import { valueNoisePars } from './particleNoise'
+import { dampColor } from './theme'
+import { takePhysicsStep } from './adaptiveQuality'
+import { usePointerSurface } from './SceneCanvas'
+import { depthParsFragment, depthParsVertex } from './particleDepth'
+import {
+  advanceShockwaves,
+  createPackedEffectors,
+  getEffectorTarget,
+  packEffectors,
+  type ParticleEffector,
+  type Shockwave,
+} from './particleEffectors'
+import {
+  advanceParticleMorph,
+  captureParticlePositions,
+  createMorphSource,
+  createParticleMorph,
+  type ParticleMorph,
+  type ParticleTransition,
+} from './particleMorph'
+
+const _worldBounds = new THREE.Box3()
 
 interface ParticlesProps {
   object: THREE.Object3D
   color?: string
   size?: number
+  sizeVariance?: number
+  rotationVariance?: number
+  spriteShape?: SpriteShape
+  spriteTexture?: string | null
+  spriteAtlas?: [number, number]
+  blending?: ParticleBlending
+  focusDistance?: number
+  aperture?: number
+  depthFade?: [number, number] | null
+  fog?: boolean
+  sampling?: 'vertex' | 'surface'
   sampleRate?: number
+  particleCount?: number
+  seed?: number
   animated?: boolean
   interactive?: boolean
   disperseRadius?: number
   disperseStrength?: number
   returnSpeed?: number
+  drift?: boolean
+  driftAmplitude?: number
+  driftFrequency?: number
+  driftSpeed?: number
+  interactionDepth?: InteractionDepth
+  interactionPlane?: InteractionPlane | null
+  // 'auto' simulates skinned clouds on the GPU, where their rest pose is
+  // already skinned, and falls back to the CPU when that's unavailable
+  physics?: 'auto' | 'cpu' | 'gpu'
+  effectors?: ParticleEffector[]
   use3DGradient?: boolean
   gradientColors?: Array<{
     color: string
     position: [number, number, number]
   }> | null
   gradientBlendPower?: number
+  gradientMode?: GradientMode
+  gradientStops?: GradientStop[] | null
+  gradientAxis?: [number, number, number]
+  gradientCenter?: [number, number, number]
+  gradientRadius?: number
+  gradientNoiseScale?: number
+  gradientSpeed?: number
+  // How quickly color and gradientColors ease to new values, 0 snaps
+  colorTransitionSpeed?: number
+  // Share of particles drawn and simulated
+  density?: number
+  // Physics steps per second, 0 for every frame
+  physicsRate?: number
+  // Skips all per-frame work
+  paused?: boolean
+  transition?: ParticleTransition | null
+  ref?: Ref<ParticlesController>
+}
+
+// Imperative extras for the owner, like a burst when the model is clicked
+export interface ParticlesController {
+  burst: (
+    effector: Extract<ParticleEffector, { type: 'shockwave' }>,
+    origin: THREE.Vector3,
+  ) => void
 }
 
 export function Particles({
   object,
   color = '#00ffff',
   size = 0.02,
+  sizeVariance = 0,
+  rotationVariance = 0,
+  spriteShape = 'circle',
+  spriteTexture = null,
+  spriteAtlas = [1, 1],
+  blending = 'additive',
+  focusDistance = 10,
+  aperture = 0,
+  depthFade = null,
+  fog = true,
   animated = false,
+  sampling = 'vertex',
   sampleRate = 1,
+  particleCount = 20000,
+  seed = 1,
   interactive = false,
   disperseRadius = 2.0,
   disperseStrength = 1.5,
   returnSpeed = 3.0,
+  drift = false,
+  driftAmplitude = 0.02,
+  driftFrequency = 2.0,
+  driftSpeed = 0.2,
+  interactionDepth = 'bounds',
+  interactionPlane = null,
+  physics = 'auto',
+  effectors = [],
   use3DGradient = false,
   gradientColors = null,
   gradientBlendPower = 2.0,
+  gradientMode = 'points',
+  gradientStops = null,
+  gradientAxis = [0, 1, 0],
+  gradientCenter = [0.5, 0.5, 0.5],
+  gradientRadius = 0.5,
+  gradientNoiseScale = 3.0,
+  gradientSpeed = 0,
+  colorTransitionSpeed = 4,
+  density = 1,
+  physicsRate = 0,
+  paused = false,
+  transition = null,
+  ref,
 }: ParticlesProps) {
   const pointsRef = useRef<THREE.Points>(null)
-  const [geometry, setGeometry] = useState<THREE.BufferGeometry | null>(null)
   const { camera, gl } = useThree()
-  const mouseRef = useRef(new THREE.Vector2(9999, 9999))
-  const mouse3DRef = useRef(new THREE.Vector3(9999, 9999, 9999))
+  const pointerSurface = usePointerSurface()
+  const pointersRef = useRef(new Map<number, ActivePointer>())
+  const pointerPositionsRef = useRef(
+    Array.from(
+      { length: MAX_POINTERS },
+      () => new THREE.Vector3(9999, 9999, 9999),
+    ),
+  )
+  const clicksRef = useRef<THREE.Vector2[]>([])
+  const shockwavesRef = useRef<Shockwave[]>([])
+  const effectorsRef = useRef(createPackedEffectors())
   const velocitiesRef = useRef<Float32Array | null>(null)
-  const skinnedMeshesRef = useRef<
-    Array<{ mesh: THREE.SkinnedMesh; indices: number[] }>
-  >([])
+  const physicsClockRef = useRef({ elapsed: 0 })
+  // Drift as last drawn, kept out of the material so it survives rebuilds
+  const driftRef = useRef({
+    enabled: false,
+    amplitude: 0,
+    frequency: 0,
+    time: 0,
+  })
+  const simulationRef = useRef<ParticleSimulation | null>(null)
+  const transitionRef = useRef(transition)
+  // Colors currently on screen, eased toward the props every frame
+  const shownColorsRef = useRef<{
+    color: THREE.Color
+    gradient: Float32Array
+  } | null>(null)
+  const previousCloudRef = useRef<Float32Array | null>(null)
+  const morphRef = useRef<{ morph: ParticleMorph; progress: number } | null>(
+    null,
+  )
+
+  useEffect(() => {
+    transitionRef.current = transition
+  }, [transition])
+
+  // Bursts ride the shockwave effectors, so they need interactive physics
+  useImperativeHandle(
+    ref,
+    () => ({
+      burst: (effector, origin) => {
+        shockwavesRef.current.push({ effector, origin: origin.clone(), age: 0 })
+      },
+    }),
+    [],
+  )
 
-  // Track mouse for interaction
+  // Track pointers over the scene, one disturbance point per active touch
   useEffect(() => {
     if (!interactive) return
 
-    const handleMouseMove = (event: MouseEvent) => {
-      // Get the canvas element's position and size
-      const canvas = gl.domElement
-      const rect = canvas.getBoundingClientRect()
+    const pointers = pointersRef.current
+    const clicks = clicksRef.current
 
-      // Calculate mouse position relative to the canvas
-      const x = event.clientX - rect.left
-      const y = event.clientY - rect.top
+    const updatePointer = (event: PointerEvent) => {
+      // The mouse disturbs on hover, touch and pen only while pressed
+      const tracked = pointers.has(event.pointerId)
+      const pressed = event.type === 'pointerdown'
+      if (!tracked && !pressed && event.pointerType !== 'mouse') return
+      if (!tracked && pointers.size >= MAX_POINTERS) return
 
       // Convert to normalized device coordinates (-1 to +1)
-      mouseRef.current.x = (x / rect.width) * 2 - 1
-      mouseRef.current.y = -(y / rect.height) * 2 + 1
+      const rect = pointerSurface.getBoundingClientRect()
+      const pointer = pointers.get(event.pointerId) ?? {
+        ndc: new THREE.Vector2(),
+        releaseAt: null,
+      }
+      pointer.ndc.set(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1,
+      )
+      pointer.releaseAt = null
+      pointers.set(event.pointerId, pointer)
+
+      // Clicks and taps set off shockwave effectors
+      if (pressed) clicks.push(pointer.ndc.clone())
+    }
+
+    const releasePointer = (event: PointerEvent) => {
+      const pointer = pointers.get(event.pointerId)
+      if (!pointer) return
 
-      const raycaster = new THREE.Raycaster()
-      raycaster.setFromCamera(mouseRef.current, camera)
+      // Touch fires pointerleave right after pointerup, keep the tap's hold
+      if (event.type === 'pointerleave' && pointer.releaseAt !== null) return
 
-      const distance = 7
-      const direction = raycaster.ray.direction.clone().multiplyScalar(distance)
-      mouse3DRef.current.copy(camera.position).add(direction)
+      // A lifted finger holds its point briefly so taps scatter like hovers
+      if (event.type === 'pointerup' && event.pointerType !== 'mouse') {
+        pointer.releaseAt = performance.now() + TAP_HOLD_TIME
+      } else {
+        pointers.delete(event.pointerId)
+      }
     }
 
-    window.addEventListener('mousemove', handleMouseMove)
-    return () => window.removeEventListener('mousemove', handleMouseMove)
-  }, [interactive, camera, gl])
+    pointerSurface.addEventListener('pointerdown', updatePointer)
+    pointerSurface.addEventListener('pointermove', updatePointer)
+    pointerSurface.addEventListener('pointerup', releasePointer)
+    pointerSurface.addEventListener('pointercancel', releasePointer)
+    pointerSurface.addEventListener('pointerleave', releasePointer)
+    return () => {
+      pointerSurface.removeEventListener('pointerdown', updatePointer)
+      pointerSurface.removeEventListener('pointermove', updatePointer)
+      pointerSurface.removeEventListener('pointerup', releasePointer)
+      pointerSurface.removeEventListener('pointercancel', releasePointer)
+      pointerSurface.removeEventListener('pointerleave', releasePointer)
+      pointers.clear()
+      clicks.length = 0
+    }
+  }, [interactive, pointerSurface])
 
   // Extract vertices from object
-  useEffect(() => {
-    if (!object) return
-
-    const positions: number[] = []
-    const originalPositions: number[] = []
-    const skinnedMeshData: Array<{
-      mesh: THREE.SkinnedMesh
-      indices: number[]
-    }> = []
-    let particleIndex = 0
-
-    object.traverse((child) => {
-      if (child instanceof THREE.Mesh && child.geometry) {
-        const positionAttribute = child.geometry.attributes.position
-
-        if (positionAttribute) {
-          const posArray = positionAttribute.array
-          const meshIndices: number[] = []
-
-          for (let i = 0; i < posArray.length; i += 3 * sampleRate) {
-            positions.push(posArray[i], posArray[i + 1], posArray[i + 2])
-            originalPositions.push(
-              posArray[i],
-              posArray[i + 1],
-              posArray[i + 2],
-            )
+  const geometry = useMemo(() => {
+    if (!object) return null
 
-            if (child instanceof THREE.SkinnedMesh) {
-              meshIndices.push(particleIndex)
-            }
-            particleIndex++
-          }
-
-          if (child instanceof THREE.SkinnedMesh && meshIndices.length > 0) {
-            skinnedMeshData.push({ mesh: child, indices: meshIndices })
-          }
-        }
-      }
-    })
-
-    skinnedMeshesRef.current = skinnedMeshData
+    const { positions, skinIndices, skinWeights, skeletons } =
+      sampling === 'surface'
+        ? sampleSurface(object, particleCount, seed)
+        : sampleVertices(object, sampleRate)
+    const originalPositions = positions
 
     // Calculate bounds for gradient
     let minX = Infinity,
@@ -144,25 +341,156 @@ export function Particles({
       'originalPosition',
       new THREE.Float32BufferAttribute(originalPositions, 3),
     )
+    particleGeometry.setAttribute(
+      'skinIndex',
+      new THREE.Float32BufferAttribute(skinIndices, 4),
+    )
+    particleGeometry.setAttribute(
+      'skinWeight',
+      new THREE.Float32BufferAttribute(skinWeights, 4),
+    )
     particleGeometry.userData.bounds = {
       min: new THREE.Vector3(minX, minY, minZ),
       max: new THREE.Vector3(maxX, maxY, maxZ),
     }
 
+    const skin = createParticleSkin(skeletons)
+    particleGeometry.userData.skin = skin
+
     const displacements = new Float32Array(positions.length)
     particleGeometry.setAttribute(
       'currentDisplacement',
       new THREE.BufferAttribute(displacements, 3),
     )
 
-    velocitiesRef.current = new Float32Array(positions.length)
-    setGeometry(particleGeometry)
+    // Texel of each particle in the GPU physics textures
+    const sampleCount = positions.length / 3
+    const simSize = getSimulationSize(sampleCount)
+    const simUvs = new Float32Array(sampleCount * 2)
+    for (let i = 0; i < sampleCount; i++) {
+      simUvs[i * 2] = ((i % simSize) + 0.5) / simSize
+      simUvs[i * 2 + 1] = (Math.floor(i / simSize) + 0.5) / simSize
+    }
+    particleGeometry.setAttribute('simUv', new THREE.BufferAttribute(simUvs, 2))
+
+    // Per-particle random values for size, rotation, atlas frame variance
+    // and which particles a lower density drops
+    const random = createRandom(seed + 1)
+    const randoms = new Float32Array(sampleCount * 4)
+    for (let i = 0; i < randoms.length; i++) randoms[i] = random()
+    particleGeometry.setAttribute(
+      'particleRandom',
+      new THREE.BufferAttribute(randoms, 4),
+    )
+
+    return particleGeometry
+  }, [object, sampling, sampleRate, particleCount, seed])
+
+  // Layout effect so the morph is set up before the new cloud's first frame
+  useLayoutEffect(() => {
+    if (!geometry) return
+
+    const skin: ParticleSkin | null = geometry.userData.skin
+    const points = pointsRef.current
+    // Updated in place every frame, so it's current at cleanup
+    const driftState = driftRef.current
+    const count = geometry.getAttribute('position').count
+    velocitiesRef.current = new Float32Array(count * 3)
+
+    // Morph out of the cloud this geometry replaces
+    const previousCloud = previousCloudRef.current
+    const transition = transitionRef.current
+    previousCloudRef.current = null
+    morphRef.current = null
+
+    if (previousCloud && transition) {
+      geometry.setAttribute(
+        'morphFromPosition',
+        new THREE.BufferAttribute(
+          createMorphSource(
+            previousCloud,
+            count,
+            transition.mapping ?? 'scaled',
+          ),
+          3,
+        ),
+      )
+      morphRef.current = { morph: createParticleMorph(transition), progress: 0 }
+    }
 
     return () => {
-      particleGeometry.dispose()
+      // Capturing reads back GPU physics and skins every particle, so only
+      // when the next cloud will morph out of this one
+      if (points && transitionRef.current) {
+        // Layout cleanup runs before the simulation's, so it's still there.
+        // The points already hold the next cloud's material by now
+        const simulation = simulationRef.current
+        const { enabled, ...drift } = driftState
+        previousCloudRef.current = captureParticlePositions(
+          geometry,
+          points.matrixWorld,
+          {
+            simulatedDisplacement: simulation
+              ? readSimulatedDisplacement(simulation)
+              : null,
+            drift: enabled
+              ? { ...drift, bounds: geometry.userData.bounds }
+              : null,
+            morphProgress: morphRef.current?.progress,
+          },
+        )
+      }
+      geometry.dispose()
+      if (skin) disposeParticleSkin(skin)
       velocitiesRef.current = null
     }
-  }, [object, sampleRate])
+  }, [geometry])
+
+  // GPGPU mode: displacement and velocity live in float render targets
+  useEffect(() => {
+    if (!geometry || !interactive || physics === 'cpu') return
+    if (physics === 'auto' && !geometry.userData.skin) return
+
+    const simulation = createParticleSimulation(
+      gl,
+      geometry,
+      geometry.userData.skin,
+    )
+    simulationRef.current = simulation
+
+    return () => {
+      if (simulation) disposeParticleSimulation(simulation)
+      simulationRef.current = null
+    }
+  }, [geometry, interactive, physics, gl])
+
+  // Stops of the ramp-based gradient modes, baked into a 1D texture
+  const gradientRamp = useMemo(
+    () =>
+      gradientStops && gradientStops.length > 0
+        ? createGradientRamp(gradientStops)
+        : null,
+    [gradientStops],
+  )
+
+  useEffect(() => {
+    return () => {
+      gradientRamp?.dispose()
+    }
+  }, [gradientRamp])
+
+  const spriteMap = useMemo(
+    () => (spriteTexture ? loadSpriteTexture(spriteTexture) : null),
+    [spriteTexture],
+  )
+
+  useEffect(() => {
+    return () => {
+      spriteMap?.dispose()
+    }
+  }, [spriteMap])
+
+  const [atlasColumns, atlasRows] = spriteAtlas
 
   // Create shader material
   const particleMaterial = useMemo(() => {
@@ -170,29 +498,7 @@ export function Particles({
       min: new THREE.Vector3(-1, -1, -1),
       max: new THREE.Vector3(1, 1, 1),
     }
-
-    const useMultiColor =
-      gradientColors !== null && gradientColors && gradientColors.length > 0
-    const maxColors = 8
-    const colorArray: number[] = []
-    const positionArray: number[] = []
-    let colorCount = 0
-
-    if (useMultiColor && gradientColors) {
-      colorCount = Math.min(gradientColors.length, maxColors)
-      for (let i = 0; i < colorCount; i++) {
-        const col = new THREE.Color(gradientColors[i].color)
-        colorArray.push(col.r, col.g, col.b)
-        positionArray.push(...gradientColors[i].position)
-      }
-      while (colorArray.length < maxColors * 3) colorArray.push(1, 1, 1)
-      while (positionArray.length < maxColors * 3) positionArray.push(0, 0, 0)
-    } else {
-      for (let i = 0; i < maxColors * 3; i++) {
-        colorArray.push(1)
-        positionArray.push(0)
-      }
-    }
+    const skin: ParticleSkin | null = geometry?.userData.skin ?? null
 
     return new THREE.ShaderMaterial({
       vertexShader: `
@@ -200,14 +506,31 @@ export function Particles({
         uniform float size;
         uniform bool animated;
         uniform bool interactive;
-        uniform vec3 mousePos;
+        ${pointerUniformsPars}
         uniform float disperseRadius;
         uniform float disperseStrength;
+        ${skinningParsVertex}
+        ${valueNoisePars}
+        ${driftParsVertex}
+        ${depthParsVertex}
         
         attribute vec3 originalPosition;
+        uniform bool useGpuPhysics;
+        uniform sampler2D displacementTexture;
+        uniform bool morphing;
+        uniform float morphProgress;
         attribute vec3 currentDisplacement;
+        attribute vec3 morphFromPosition;
+        attribute vec2 simUv;
+        uniform float sizeVariance;
+        uniform float rotationVariance;
+        uniform float spriteFrames;
+        uniform float density;
+        attribute vec4 particleRandom;
         varying vec3 vOriginalPosition;
         varying float vDistanceFromMouse;
+        varying float vRotation;
+        varying float vFrame;
         
         float easeOutCubic(float t) {
           float f = t - 1.0;
@@ -215,13 +538,29 @@ export function Particles({
         }
         
         void main() {
-          vOriginalPosition = originalPosition;
-          vec3 pos = originalPosition + currentDisplacement;
+          // Dropped by adaptive quality, moved outside the clip volume
+          if (particleRandom.w > density) {
+            gl_Position = vec4(0.0, 0.0, 2.0, 1.0);
+            gl_PointSize = 0.0;
+            return;
+          }
+
+          vec3 restPosition = getSkinnedPosition(originalPosition);
+          vOriginalPosition = restPosition;
+          vec3 displacement = useGpuPhysics
+            ? texture2D(displacementTexture, simUv).xyz
+            : currentDisplacement;
+          vec3 pos = restPosition + getDriftOffset(restPosition) + displacement;
+          if (morphing) pos = mix(morphFromPosition, pos, morphProgress);
           float distanceInfluence = 0.0;
           
           if (interactive) {
-            vec4 worldPos = modelMatrix * vec4(originalPosition, 1.0);
-            float dist = distance(worldPos.xyz, mousePos);
+            vec4 worldPos = modelMatrix * vec4(restPosition, 1.0);
+            float dist = 1e6;
+            for (int i = 0; i < MAX_POINTERS; i++) {
+              if (i >= pointerCount) break;
+              dist = min(dist, distance(worldPos.xyz, pointerPositions[i]));
+            }
             vDistanceFromMouse = dist;
             
             if (dist < disperseRadius) {
@@ -231,18 +570,25 @@ export function Particles({
           }
           
           float pulse = animated 
-            ? sin(time * 2.0 + originalPosition.x * 10.0 + originalPosition.y * 10.0) * 0.5 + 1.0
+            ? sin(time * 2.0 + restPosition.x * 10.0 + restPosition.y * 10.0) * 0.5 + 1.0
             : 1.0;
           
           float sizeMultiplier = 1.0 + distanceInfluence * 0.5;
+          // Fewer particles grow to keep the silhouette filled
+          float sizeVariation = (1.0 + (particleRandom.x * 2.0 - 1.0) * sizeVariance) * inversesqrt(density);
+          vRotation = (particleRandom.y * 2.0 - 1.0) * rotationVariance;
+          vFrame = floor(particleRandom.z * spriteFrames);
           
           vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
-          gl_PointSize = size * pulse * sizeMultiplier * (300.0 / -mvPosition.z);
+          vViewDepth = -mvPosition.z;
+          vBlur = getCircleOfConfusion(vViewDepth);
+          gl_PointSize = size * sizeVariation * pulse * sizeMultiplier * (1.0 + vBlur) * (300.0 / -mvPosition.z);
           gl_Position = projectionMatrix * mvPosition;
+          #include <fog_vertex>
         }
       `,
       fragmentShader: `
-        #define MAX_GRADIENT_COLORS 8
+        #define MAX_GRADIENT_COLORS ${MAX_GRADIENT_COLORS}
         
         uniform vec3 color;
         uniform bool use3DGradient;
@@ -253,25 +599,29 @@ export function Particles({
         uniform vec3 gradientColorArray[MAX_GRADIENT_COLORS];
         uniform vec3 gradientPositionArray[MAX_GRADIENT_COLORS];
         uniform float gradientBlendPower;
+        uniform bool useGradientRamp;
+        ${valueNoisePars}
+        ${gradientRampPars}
+        ${spriteParsFragment}
+        ${depthParsFragment}
         
         varying vec3 vOriginalPosition;
         varying float vDistanceFromMouse;
         
         void main() {
-          vec2 center = gl_PointCoord - vec2(0.5);
-          float dist = length(center);
+          vec4 sprite = applyBokeh(getSprite());
+          float intensity = sprite.a * (1.0 - getDepthFade());
           
-          if (dist > 0.5) discard;
-          
-          float intensity = 1.0 - (dist * 2.0);
-          intensity = pow(intensity, 2.0);
+          if (intensity <= 0.0) discard;
           
           vec3 finalColor = color;
           
-          if (use3DGradient && useMultiColorGradient && gradientColorCount > 0) {
-            vec3 normalizedPos = (vOriginalPosition - boundsMin) / (boundsMax - boundsMin);
-            normalizedPos = clamp(normalizedPos, 0.0, 1.0);
-            
+          vec3 normalizedPos = (vOriginalPosition - boundsMin) / (boundsMax - boundsMin);
+          normalizedPos = clamp(normalizedPos, 0.0, 1.0);
+          
+          if (use3DGradient && gradientMode != 0) {
+            if (useGradientRamp) finalColor = getRampColor(normalizedPos);
+          } else if (use3DGradient && useMultiColorGradient && gradientColorCount > 0) {
             vec3 accumulatedColor = vec3(0.0);
             float totalWeight = 0.0;
             
@@ -291,200 +641,342 @@ export function Particles({
             }
           }
           
-          finalColor *= intensity;
-          gl_FragColor = vec4(finalColor, intensity);
+          finalColor *= sprite.rgb;
+          gl_FragColor = blendParticle(finalColor, intensity);
         }
       `,
       uniforms: {
+        ...THREE.UniformsUtils.clone(THREE.UniformsLib.fog),
         time: { value: 0 },
         size: { value: size },
-        color: { value: new THREE.Color(color) },
+        sizeVariance: { value: sizeVariance },
+        rotationVariance: { value: rotationVariance },
+        spriteShape: { value: SPRITE_SHAPES[spriteShape] },
+        useSpriteTexture: { value: spriteMap !== null },
+        spriteTexture: { value: spriteMap },
+        spriteAtlas: { value: new THREE.Vector2(atlasColumns, atlasRows) },
+        spriteFrames: { value: atlasColumns * atlasRows },
+        density: { value: 1 },
+        blendMode: { value: PARTICLE_BLENDINGS[blending] },
+        // Colors are set every frame so theme changes can ease in
+        color: { value: new THREE.Color() },
         animated: { value: animated },
         interactive: { value: interactive },
-        mousePos: { value: new THREE.Vector3(9999, 9999, 9999) },
+        pointerPositions: {
+          value: Array.from(
+            { length: MAX_POINTERS },
+            () => new THREE.Vector3(),
+          ),
+        },
+        pointerCount: { value: 0 },
         disperseRadius: { value: disperseRadius },
         disperseStrength: { value: disperseStrength },
+        morphing: { value: false },
+        morphProgress: { value: 1 },
+        useGpuPhysics: { value: false },
+        displacementTexture: { value: null },
+        useSkinning: { value: skin !== null },
+        boneTexture: { value: skin?.boneTexture ?? null },
+        skinSpaceMatrix: { value: new THREE.Matrix4() },
         use3DGradient: { value: use3DGradient },
         boundsMin: { value: bounds.min },
         boundsMax: { value: bounds.max },
-        useMultiColorGradient: { value: useMultiColor },
-        gradientColorCount: { value: colorCount },
-        gradientColorArray: { value: colorArray },
-        gradientPositionArray: { value: positionArray },
+        useMultiColorGradient: { value: false },
+        gradientColorCount: { value: 0 },
+        gradientColorArray: {
+          value: new Float32Array(MAX_GRADIENT_COLORS * 3),
+        },
+        gradientPositionArray: {
+          value: new Float32Array(MAX_GRADIENT_COLORS * 3),
+        },
         gradientBlendPower: { value: gradientBlendPower },
+        useGradientRamp: { value: gradientRamp !== null },
+        gradientMode: { value: GRADIENT_MODES[gradientMode] },
+        gradientRamp: { value: gradientRamp },
+        gradientAxis: { value: new THREE.Vector3() },
+        gradientCenter: { value: new THREE.Vector3() },
+        gradientRadius: { value: 0 },
+        gradientNoiseScale: { value: 0 },
+        gradientOffset: { value: 0 },
+        drift: { value: false },
+        driftAmplitude: { value: 0 },
+        driftFrequency: { value: 0 },
+        driftTime: { value: 0 },
+        focusDistance: { value: 0 },
+        aperture: { value: 0 },
+        depthFade: { value: false },
+        depthFadeRange: { value: new THREE.Vector2() },
       },
+      fog,
       transparent: true,
-      blending: THREE.AdditiveBlending,
+      blending: getThreeBlending(blending),
+      premultipliedAlpha: blending === 'multiply',
       depthWrite: false,
     })
   }, [
-    color,
     size,
+    sizeVariance,
+    rotationVariance,
+    spriteShape,
+    spriteMap,
+    atlasColumns,
+    atlasRows,
+    blending,
+    fog,
     animated,
     interactive,
     disperseRadius,
     disperseStrength,
     use3DGradient,
-    gradientColors,
     gradientBlendPower,
+    gradientMode,
+    gradientRamp,
     geometry,
   ])
 
+  const colorTarget = useMemo(() => new THREE.Color(color), [color])
+  const gradientPoints = useMemo(
+    () => createGradientPoints(gradientColors),
+    [gradientColors],
+  )
+
   // Animation loop
   useFrame((state, delta) => {
-    if (animated && particleMaterial.uniforms.time) {
-      particleMaterial.uniforms.time.value += delta
-    }
+    if (paused || !geometry || !pointsRef.current) return
+    const material = pointsRef.current.material as THREE.ShaderMaterial
 
-    if (interactive && particleMaterial.uniforms.mousePos) {
-      particleMaterial.uniforms.mousePos.value.copy(mouse3DRef.current)
+    if (animated && material.uniforms.time) {
+      material.uniforms.time.value += delta
     }
 
-    // Update particle positions from skinned mesh animation
-    if (geometry && skinnedMeshesRef.current.length > 0 && pointsRef.current) {
-      const posAttr = geometry.getAttribute('position') as THREE.BufferAttribute
-      const originalPosAttr = geometry.getAttribute(
-        'originalPosition',
-      ) as THREE.BufferAttribute
-
-      if (posAttr && originalPosAttr) {
-        const vertex = new THREE.Vector3()
-        const temp = new THREE.Vector3()
-        const skinned = new THREE.Vector3()
-        const inverseMatrix = new THREE.Matrix4()
-        inverseMatrix.copy(pointsRef.current.matrixWorld).invert()
-
-        for (const { mesh, indices } of skinnedMeshesRef.current) {
-          const meshPosAttr = mesh.geometry.attributes.position
-          const skinIndexAttr = mesh.geometry.attributes.skinIndex
-          const skinWeightAttr = mesh.geometry.attributes.skinWeight
+    // Ease toward new colors, starting from whatever is on screen
+    let shown = shownColorsRef.current
+    if (!shown) {
+      shown = {
+        color: colorTarget.clone(),
+        gradient: gradientPoints.colors.slice(),
+      }
+      shownColorsRef.current = shown
+    }
+    dampColor(shown.color, colorTarget, colorTransitionSpeed, delta)
+    for (let i = 0; i < shown.gradient.length; i++) {
+      shown.gradient[i] =
+        colorTransitionSpeed > 0
+          ? THREE.MathUtils.damp(
+              shown.gradient[i],
+              gradientPoints.colors[i],
+              colorTransitionSpeed,
+              delta,
+            )
+          : gradientPoints.colors[i]
+    }
+    material.uniforms.color.value.copy(shown.color)
+    material.uniforms.gradientColorArray.value.set(shown.gradient)
+    material.uniforms.gradientPositionArray.value.set(gradientPoints.positions)
+    material.uniforms.gradientColorCount.value = gradientPoints.count
+    material.uniforms.useMultiColorGradient.value = gradientPoints.count > 0
+
+    material.uniforms.density.value = density
+
+    // Ramp gradient shape, swept across the model over time
+    material.uniforms.gradientAxis.value.set(...gradientAxis)
+    material.uniforms.gradientCenter.value.set(...gradientCenter)
+    material.uniforms.gradientRadius.value = gradientRadius
+    material.uniforms.gradientNoiseScale.value = gradientNoiseScale
+    material.uniforms.gradientOffset.value += delta * gradientSpeed
+
+    // Depth of field and depth fade
+    material.uniforms.focusDistance.value = focusDistance
+    material.uniforms.aperture.value = aperture
+    material.uniforms.depthFade.value = depthFade !== null
+    if (depthFade) material.uniforms.depthFadeRange.value.set(...depthFade)
+
+    // Ambient curl-noise drift on top of skinning and dispersion
+    const driftState = driftRef.current
+    driftState.enabled = drift
+    driftState.amplitude = driftAmplitude
+    driftState.frequency = driftFrequency
+    if (drift) driftState.time += delta * driftSpeed
+    material.uniforms.drift.value = drift
+    material.uniforms.driftAmplitude.value = driftAmplitude
+    material.uniforms.driftFrequency.value = driftFrequency
+    material.uniforms.driftTime.value = driftState.time
+
+    // Project each pointer into the scene at the cloud's depth
+    const pointerPositions = pointerPositionsRef.current
+    let pointerCount = 0
+    if (interactive) {
+      const bounds = geometry.userData.bounds
+      // set() copies, so the geometry's own bounds stay in model space
+      const worldBounds = _worldBounds
+        .set(bounds.min, bounds.max)
+        .applyMatrix4(pointsRef.current.matrixWorld)
+      const now = performance.now()
+
+      for (const [pointerId, pointer] of pointersRef.current) {
+        if (pointer.releaseAt !== null && now >= pointer.releaseAt) {
+          pointersRef.current.delete(pointerId)
+          continue
+        }
+        projectPointer(
+          pointer.ndc,
+          camera,
+          worldBounds,
+          interactionDepth,
+          interactionPlane,
+          pointerPositions[pointerCount],
+        )
+        pointerCount++
+      }
 
-          if (mesh.skeleton) {
-            mesh.skeleton.update()
-          }
+      for (let i = 0; i < MAX_POINTERS; i++) {
+        material.uniforms.pointerPositions.value[i].copy(pointerPositions[i])
+      }
 
-          for (let i = 0; i < indices.length; i++) {
-            const particleIdx = indices[i]
-            const vertexIdx = i * sampleRate
-
-            if (vertexIdx * 3 + 2 < meshPosAttr.array.length) {
-              vertex.fromBufferAttribute(meshPosAttr, vertexIdx)
-
-              if (skinIndexAttr && skinWeightAttr && mesh.skeleton) {
-                skinned.set(0, 0, 0)
-
-                const boneIndices = [
-                  Math.floor(skinIndexAttr.getX(vertexIdx)),
-                  Math.floor(skinIndexAttr.getY(vertexIdx)),
-                  Math.floor(skinIndexAttr.getZ(vertexIdx)),
-                  Math.floor(skinIndexAttr.getW(vertexIdx)),
-                ]
-                const weights = [
-                  skinWeightAttr.getX(vertexIdx),
-                  skinWeightAttr.getY(vertexIdx),
-                  skinWeightAttr.getZ(vertexIdx),
-                  skinWeightAttr.getW(vertexIdx),
-                ]
-
-                for (let j = 0; j < 4; j++) {
-                  if (
-                    weights[j] > 0 &&
-                    boneIndices[j] < mesh.skeleton.bones.length
-                  ) {
-                    const bone = mesh.skeleton.bones[boneIndices[j]]
-                    temp.copy(vertex)
-                    temp.applyMatrix4(
-                      mesh.skeleton.boneInverses[boneIndices[j]],
-                    )
-                    temp.applyMatrix4(bone.matrixWorld)
-                    temp.multiplyScalar(weights[j])
-                    skinned.add(temp)
-                  }
-                }
-
-                vertex.copy(skinned)
-              } else {
-                vertex.applyMatrix4(mesh.matrixWorld)
-              }
-
-              vertex.applyMatrix4(inverseMatrix)
-
-              const idx = particleIdx * 3
-              posAttr.array[idx] = vertex.x
-              posAttr.array[idx + 1] = vertex.y
-              posAttr.array[idx + 2] = vertex.z
-
-              originalPosAttr.array[idx] = vertex.x
-              originalPosAttr.array[idx + 1] = vertex.y
-              originalPosAttr.array[idx + 2] = vertex.z
-            }
-          }
+      // Start a shockwave from every click since the last frame
+      const shockwaves = shockwavesRef.current
+      advanceShockwaves(shockwaves, delta)
+      for (const ndc of clicksRef.current) {
+        const origin = projectPointer(
+          ndc,
+          camera,
+          worldBounds,
+          interactionDepth,
+          interactionPlane,
+          new THREE.Vector3(),
+        )
+        for (const effector of effectors) {
+          if (effector.type !== 'shockwave') continue
+          shockwaves.push({ effector, origin, age: 0 })
         }
-
-        posAttr.needsUpdate = true
-        originalPosAttr.needsUpdate = true
       }
+      clicksRef.current.length = 0
+
+      packEffectors(
+        effectors,
+        shockwaves,
+        pointerCount > 0 ? pointerPositions[0] : null,
+        effectorsRef.current,
+      )
+    }
+    material.uniforms.pointerCount.value = pointerCount
+
+    // Morph in from the previous cloud
+    const morphState = morphRef.current
+    if (morphState) {
+      morphState.progress = advanceParticleMorph(morphState.morph, delta)
+      material.uniforms.morphProgress.value = morphState.progress
+      if (morphState.morph.elapsed >= morphState.morph.duration) {
+        morphRef.current = null
+      }
+    }
+    material.uniforms.morphing.value = morphState !== null
+
+    // Upload this frame's bone matrices for GPU skinning
+    const skin: ParticleSkin | null = geometry.userData.skin
+    if (skin) {
+      updateParticleSkin(skin)
+      material.uniforms.skinSpaceMatrix.value
+        .copy(pointsRef.current.matrixWorld)
+        .invert()
     }
 
-    // Smooth particle displacement with physics
-    if (interactive && geometry && velocitiesRef.current && pointsRef.current) {
+    // Smooth particle displacement with physics, on the GPU when available,
+    // at a lower rate on slow devices
+    const simulation = simulationRef.current
+    material.uniforms.useGpuPhysics.value = simulation !== null
+    const physicsDelta = interactive
+      ? takePhysicsStep(physicsClockRef.current, physicsRate, delta)
+      : 0
+
+    if (physicsDelta > 0 && simulation) {
+      stepParticleSimulation(simulation, {
+        objectMatrix: pointsRef.current.matrixWorld,
+        skinSpaceMatrix: material.uniforms.skinSpaceMatrix.value,
+        pointerPositions,
+        pointerCount,
+        effectors: effectorsRef.current,
+        disperseRadius,
+        disperseStrength,
+        returnSpeed,
+        delta: physicsDelta,
+        time: state.clock.elapsedTime,
+      })
+      material.uniforms.displacementTexture.value =
+        getSimulatedDisplacement(simulation)
+    } else if (physicsDelta > 0 && velocitiesRef.current) {
       const displacementAttr = geometry.getAttribute(
         'currentDisplacement',
       ) as THREE.BufferAttribute
       const originalPosAttr = geometry.getAttribute(
         'originalPosition',
       ) as THREE.BufferAttribute
+      const randoms = geometry.getAttribute('particleRandom').array
       const velocities = velocitiesRef.current
 
       if (displacementAttr && originalPosAttr) {
-        const mousePos = mouse3DRef.current
         const springStrength = returnSpeed
         const damping = 0.8
+        const skinSpaceMatrix = material.uniforms.skinSpaceMatrix.value
+        const time = state.clock.elapsedTime
+        const worldPos = new THREE.Vector3()
+        const direction = new THREE.Vector3()
+        const effectorTarget = new THREE.Vector3()
+        const packedEffectors = effectorsRef.current
 
         for (let i = 0; i < displacementAttr.count; i++) {
+          // Not drawn at this density
+          if (randoms[i * 4 + 3] > density) continue
           const idx = i * 3
 
-          const ox = originalPosAttr.array[idx]
-          const oy = originalPosAttr.array[idx + 1]
-          const oz = originalPosAttr.array[idx + 2]
-
-          const worldPos = new THREE.Vector3(ox, oy, oz)
+          if (skin) {
+            getSkinnedPosition(skin, geometry, i, skinSpaceMatrix, worldPos)
+          } else {
+            worldPos.fromBufferAttribute(originalPosAttr, i)
+          }
+          const ox = worldPos.x
           worldPos.applyMatrix4(pointsRef.current.matrixWorld)
 
-          const dist = worldPos.distanceTo(mousePos)
+          // Effector forces, then each pointer pushes away from itself
+          getEffectorTarget(packedEffectors, worldPos, effectorTarget)
+          let targetX = effectorTarget.x,
+            targetY = effectorTarget.y,
+            targetZ = effectorTarget.z
 
-          let targetX = 0,
-            targetY = 0,
-            targetZ = 0
+          for (let p = 0; p < pointerCount; p++) {
+            const pointerPos = pointerPositions[p]
+            const dist = worldPos.distanceTo(pointerPos)
+            if (dist >= disperseRadius) continue
 
-          if (dist < disperseRadius) {
-            const direction = new THREE.Vector3()
-              .subVectors(worldPos, mousePos)
-              .normalize()
+            direction.subVectors(worldPos, pointerPos).normalize()
             const influence = Math.pow(1.0 - dist / disperseRadius, 2)
-            const time = state.clock.elapsedTime
             const noise = Math.sin(ox * 0.1 + time) * 0.3
 
-            targetX = direction.x * influence * disperseStrength * (1 + noise)
-            targetY = direction.y * influence * disperseStrength * (1 + noise)
-            targetZ = direction.z * influence * disperseStrength * (1 + noise)
+            targetX += direction.x * influence * disperseStrength * (1 + noise)
+            targetY += direction.y * influence * disperseStrength * (1 + noise)
+            targetZ += direction.z * influence * disperseStrength * (1 + noise)
           }
 
           const currentX = displacementAttr.array[idx]
           const currentY = displacementAttr.array[idx + 1]
           const currentZ = displacementAttr.array[idx + 2]
 
-          velocities[idx] += (targetX - currentX) * springStrength * delta
-          velocities[idx + 1] += (targetY - currentY) * springStrength * delta
-          velocities[idx + 2] += (targetZ - currentZ) * springStrength * delta
+          velocities[idx] +=
+            (targetX - currentX) * springStrength * physicsDelta
+          velocities[idx + 1] +=
+            (targetY - currentY) * springStrength * physicsDelta
+          velocities[idx + 2] +=
+            (targetZ - currentZ) * springStrength * physicsDelta
 
           velocities[idx] *= damping
           velocities[idx + 1] *= damping
           velocities[idx + 2] *= damping
 
-          displacementAttr.array[idx] += velocities[idx] * delta * 60
-          displacementAttr.array[idx + 1] += velocities[idx + 1] * delta * 60
-          displacementAttr.array[idx + 2] += velocities[idx + 2] * delta * 60
+          displacementAttr.array[idx] += velocities[idx] * physicsDelta * 60
+          displacementAttr.array[idx + 1] +=
+            velocities[idx + 1] * physicsDelta * 60
+          displacementAttr.array[idx + 2] +=
+            velocities[idx + 2] * physicsDelta * 60
         }
 
         displacementAttr.needsUpdate = true
@@ -501,6 +993,11 @@ export function Particles({
   if (!geometry) return null
 
   return (
-    <points ref={pointsRef} geometry={geometry} material={particleMaterial} />
+    <points
+      ref={pointsRef}
+      geometry={geometry}
+      material={particleMaterial}
+      frustumCulled={false}
+    />
   )
 }
@@ -0,0 +1,83 @@
+'use client'
+
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useSyncExternalStore,
+  type ReactNode,
+} from 'react'
+import {
+  createMediaQueryStore,
+  createStoredPreference,
+} from './preferenceStore'
+
+// 'system' follows prefers-reduced-motion
+export type MotionPreference = 'reduce' | 'full' | 'system'
+
+interface ReducedMotionContextValue {
+  reducedMotion: boolean
+  preference: MotionPreference
+  setPreference: (preference: MotionPreference) => void
+  toggleReducedMotion: () => void
+}
+
+const ReducedMotionContext = createContext<ReducedMotionContextValue | null>(
+  null,
+)
+
+const motionPreference = createStoredPreference<MotionPreference>(
+  'motion',
+  ['reduce', 'full'],
+  'system',
+)
+const systemReduce = createMediaQueryStore('(prefers-reduced-motion: reduce)')
+
+// Follows prefers-reduced-motion until the user picks, like ThemeProvider.
+// Sets a `reduce-motion` class that stills the page's CSS animations
+export function ReducedMotionProvider({ children }: { children: ReactNode }) {
+  const preference = useSyncExternalStore(
+    motionPreference.subscribe,
+    motionPreference.get,
+    () => 'system' as const,
+  )
+  const prefersReduce = useSyncExternalStore(
+    systemReduce.subscribe,
+    systemReduce.get,
+    () => false,
+  )
+  const reducedMotion =
+    preference === 'system' ? prefersReduce : preference === 'reduce'
+
+  useEffect(() => {
+    document.documentElement.classList.toggle('reduce-motion', reducedMotion)
+  }, [reducedMotion])
+
+  const value = useMemo<ReducedMotionContextValue>(
+    () => ({
+      reducedMotion,
+      preference,
+      setPreference: motionPreference.set,
+      toggleReducedMotion: () =>
+        motionPreference.set(reducedMotion ? 'full' : 'reduce'),
+    }),
+    [reducedMotion, preference],
+  )
+
+  return (
+    <ReducedMotionContext.Provider value={value}>
+      {children}
+    </ReducedMotionContext.Provider>
+  )
+}
+
+export function useReducedMotion() {
+  const context = useContext(ReducedMotionContext)
+  if (!context) {
+    throw new Error(
+      'useReducedMotion must be used inside a ReducedMotionProvider',
+    )
+  }
+  return context
+}
@@ -1,278 +1,317 @@
 'use client'
 
-import { useState, useEffect, Suspense, useRef } from 'react'
-import { Canvas } from '@react-three/fiber'
-import { Grid, OrbitControls, PerspectiveCamera } from '@react-three/drei'
-import { Model } from './Model'
-import { GridHelper } from 'three'
+import { useState, useEffect, useRef, type RefObject } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import { Cat } from 'lucide-react'
+import { ConfiguredScene } from './ConfiguredScene'
+import {
+  advanceScrollTimeline,
+  useScrollTimeline,
+  type ScrollTimeline,
+} from './scrollTimeline'
+import { parseSceneConfig } from './sceneConfig'
+import { useScenePalette } from './ThemeProvider'
+import { useReducedMotion } from './ReducedMotionProvider'
+import {
+  DEFAULT_LOCOMOTION_TUNING,
+  createLocomotionState,
+  isMoving,
+  stepLocomotion,
+  type LocomotionPhase,
+  type LocomotionState,
+} from './locomotion'
+import {
+  createMotionPath,
+  getPathDistanceAtX,
+  orientAlongTangent,
+  resolveScreenPath,
+  sampleMotionPath,
+  type MotionPath,
+  type ScreenPathPoint,
+} from './motionPath'
+import { useCanvasPointer } from './useCanvasPointer'
+import { getJourney, getJourneyRect, type Journey } from './scrollJourney'
+import runningCatJson from '../scenes/runningCat.json'
 
-export default function RunningCatScene() {
-  const [scrollProgress, setScrollProgress] = useState(0)
-  const [isMoving, setIsMoving] = useState(false)
-  const [facingRight, setFacingRight] = useState(true)
-  const [targetRotation, setTargetRotation] = useState(Math.PI / 2)
-  const [currentRotation, setCurrentRotation] = useState(Math.PI / 2)
-  const [screenWidth, setScreenWidth] = useState(0)
-  const containerRef = useRef<HTMLDivElement>(null)
-  const previousPositionRef = useRef<number>(0)
-  const moveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
-  const currentRotationRef = useRef<number>(Math.PI / 2)
-  const isTurningRef = useRef<boolean>(false)
-  const isDark = true
+// Camera, lights and the cat's particle look live in scenes/runningCat.json
+const runningCatScene = parseSceneConfig(runningCatJson, 'runningCat')
+const catLocomotion = {
+  ...DEFAULT_LOCOMOTION_TUNING,
+  ...runningCatScene.models[0].locomotion,
+}
 
-  // Track screen width for responsive design
-  useEffect(() => {
-    const updateScreenWidth = () => {
-      setScreenWidth(window.innerWidth)
-    }
-    
-    updateScreenWidth()
-    window.addEventListener('resize', updateScreenWidth)
-    return () => window.removeEventListener('resize', updateScreenWidth)
-  }, [])
+const stillDescription =
+  'A particle cat sitting still, moving down the page to each section it visits.'
 
-  useEffect(() => {
-    const handleScroll = () => {
-      if (!containerRef.current) return
+// The run in screen widths, from off the left edge to off the right,
+// hopping a gap and then swinging toward the camera
+const runPath: ScreenPathPoint[] = [
+  [-1, 1, 0],
+  [-0.45, 1, 0],
+  [-0.3, 2, 0],
+  [-0.15, 1, 0],
+  [0.35, 1, 2],
+  [1, 1, 0],
+]
 
-      const rect = containerRef.current.getBoundingClientRect()
-      const windowHeight = window.innerHeight
+// How far past the screen edges the run starts and ends
+const EDGE_MARGIN = 2
 
-      // Check if the scene is fully visible
-      const isFullyVisible = rect.top >= 0 && rect.bottom <= windowHeight
+const _tangent = new THREE.Vector3()
+const _raycaster = new THREE.Raycaster()
+// Where the pointer is looked for in follow mode
+const _groundPlane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0)
+const _pointer = new THREE.Vector3()
 
-      if (isFullyVisible) {
-        // Calculate progress based on how far we've scrolled past the point where scene became fully visible
-        const scrolledPastFullView = window.scrollY - (containerRef.current.offsetTop - windowHeight + rect.height)
-        const scrollRange = windowHeight // Use viewport height as the scroll range for animation
-        const progress = Math.max(0, Math.min(1, scrolledPastFullView / scrollRange))
-        
-        setScrollProgress(progress)
-      } else if (rect.top > windowHeight) {
-        // Scene hasn't entered view yet
-        setScrollProgress(0)
-      } else if (rect.bottom < 0) {
-        // Scene has scrolled past
-        setScrollProgress(1)
+// Where the cat heads on its journey. It sits in the middle of the boxes it
+// visits, runs off to the left on the way into its own section, along the
+// run path through it, and back in from the right on the way to the next
+function getRunTarget(
+  journey: Journey,
+  stage: number,
+  runProgress: number,
+  length: number,
+) {
+  const { lerp } = THREE.MathUtils
+  const middle = length / 2
+  if (journey.to === stage && journey.from < stage) {
+    return lerp(middle, 0, journey.t)
+  }
+  if (journey.from === stage && journey.to > stage) {
+    return lerp(length, middle, journey.t)
+  }
+  return journey.from === stage ? runProgress * length : middle
+}
+
+interface CatLocomotionProps {
+  catRef: RefObject<THREE.Group | null>
+  timeline: RefObject<ScrollTimeline>
+  journeyRef: RefObject<Journey>
+  // The running section's place among the journey's stops
+  stage: number
+  groundSpeedRef: RefObject<number>
+  follow: boolean
+  reducedMotion: boolean
+  onPhaseChange: (phase: LocomotionPhase) => void
+}
+
+// Walks the cat along the run path toward the scroll position every
+// frame. React only hears when it starts or stops moving, which swaps the
+// idle and run clouds, and the run clip is paced by its ground speed. In
+// follow mode it heads for the pointer instead while it's over the canvas
+function CatLocomotion({
+  catRef,
+  timeline,
+  journeyRef,
+  stage,
+  groundSpeedRef,
+  follow,
+  reducedMotion,
+  onPhaseChange,
+}: CatLocomotionProps) {
+  const stateRef = useRef(createLocomotionState(0))
+  const pathRef = useRef<{ key: string; path: MotionPath } | null>(null)
+  const pointerRef = useCanvasPointer(follow && !reducedMotion)
+
+  useFrame((state, delta) => {
+    const cat = catRef.current
+    if (!cat) return
+
+    // Fitted to the frustum again whenever the canvas or field of view
+    // changes, keeping the cat at the same point of the run
+    const camera = state.camera as THREE.PerspectiveCamera
+    const key = `${camera.fov}:${camera.aspect}:${camera.zoom}`
+    const fitted = pathRef.current
+    if (fitted?.key !== key) {
+      const path = createMotionPath(
+        resolveScreenPath(runPath, camera, EDGE_MARGIN),
+      )
+      stateRef.current = fitted
+        ? {
+            ...stateRef.current,
+            distance:
+              (stateRef.current.distance / fitted.path.length) * path.length,
+          }
+        : // Starting out sat in the middle, wherever it's headed
+          createLocomotionState(path.length / 2)
+      pathRef.current = { key, path }
+    }
+    const { path } = pathRef.current!
+
+    const previous = stateRef.current
+    let next: LocomotionState
+    if (reducedMotion) {
+      // Sitting still halfway along
+      next = createLocomotionState(path.length / 2, previous.facing)
+    } else {
+      const progress = advanceScrollTimeline(
+        timeline.current,
+        delta,
+        state.clock.elapsedTime,
+      )
+      let target = getRunTarget(
+        journeyRef.current,
+        stage,
+        progress,
+        path.length,
+      )
+      const pointer = pointerRef.current
+      if (follow && pointer.active) {
+        _raycaster.setFromCamera(pointer.ndc, camera)
+        if (_raycaster.ray.intersectPlane(_groundPlane, _pointer)) {
+          target = getPathDistanceAtX(path, _pointer.x)
+        }
       }
+      // A long frame, like coming back to the tab, shouldn't teleport it
+      next = stepLocomotion(
+        previous,
+        target,
+        Math.min(delta, 0.1),
+        catLocomotion,
+      )
     }
+    stateRef.current = next
 
-    window.addEventListener('scroll', handleScroll, { passive: true })
-    handleScroll() // Call once on mount
-    return () => {
-      window.removeEventListener('scroll', handleScroll)
+    sampleMotionPath(path, next.distance, cat.position, _tangent)
+    orientAlongTangent(cat, _tangent, next.turn)
+    // Hops cover less ground than their length along the path
+    groundSpeedRef.current = next.speed * Math.hypot(_tangent.x, _tangent.z)
+    if (isMoving(next.phase) !== isMoving(previous.phase)) {
+      onPhaseChange(next.phase)
     }
-  }, [])
+  })
 
-  // Calculate horizontal position based on scroll progress (full screen width)
-  // Cat moves across the visible viewport from left to right
-  // Viewport width in 3D space depends on camera distance and FOV
-  const baseViewportWidth = 25 // Approximate viewport width at camera distance
-  const viewportWidth = screenWidth < 640 ? baseViewportWidth * 1.2 : 
-                        screenWidth < 1024 ? baseViewportWidth * 1.1 : 
-                        baseViewportWidth
-  
-  const startX = -viewportWidth // Start at leftmost edge
-  const endX = viewportWidth * 2     // End at rightmost edge
-  const horizontalPosition = startX + (scrollProgress * (endX - startX))
+  return null
+}
 
-  // Initialize previous position ref when viewport changes
-  useEffect(() => {
-    previousPositionRef.current = startX
-  }, [startX])
+interface RunningCatSceneProps {
+  // Ids of the boxes the cat sits in before and after this section
+  from?: string
+  to?: string
+}
+
+// One cat on the shared canvas for the whole page. Its view rides in a
+// fixed frame that follows the page's stops as it scrolls: it sits in the
+// `from` box, travels down into this section to run across, then on to the
+// `to` box
+export default function RunningCatScene({ from, to }: RunningCatSceneProps) {
+  const [moving, setMoving] = useState(false)
+  const [following, setFollowing] = useState(false)
+  const [screenWidth, setScreenWidth] = useState(0)
+  const [stage, setStage] = useState(0)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const frameRef = useRef<HTMLDivElement>(null)
+  const journeyRef = useRef<Journey>({ from: 0, to: 0, t: 0 })
+  const catRef = useRef<THREE.Group>(null)
+  const groundSpeedRef = useRef(0)
+  const palette = useScenePalette()
+  const { reducedMotion } = useReducedMotion()
+  // Run across while the scene is fully in view
+  const timeline = useScrollTimeline(containerRef, { range: 'visible' })
 
-  // Check if position has changed to determine if cat should be running or idle
+  // Track screen width for responsive design
   useEffect(() => {
-    const positionChanged = Math.abs(horizontalPosition - previousPositionRef.current) > 0.01
+    const updateScreenWidth = () => {
+      setScreenWidth(window.innerWidth)
+    }
 
-    if (positionChanged) {
-      // Position is changing - cat should run
-      setIsMoving(true)
-      
-      // Determine direction of movement
-      const movingRight = horizontalPosition > previousPositionRef.current
-      const directionChanged = movingRight !== facingRight
+    updateScreenWidth()
+    window.addEventListener('resize', updateScreenWidth)
+    return () => window.removeEventListener('resize', updateScreenWidth)
+  }, [])
 
-      if (directionChanged && !isTurningRef.current) {
-        // Only allow turn if not currently turning AND cat is moving
-        // Set target rotation to face the correct direction
-        const newRotation = movingRight ? Math.PI / 2 : -Math.PI / 2
-        
-        console.log(`Cat turning to face ${movingRight ? 'right' : 'left'}`)
-        isTurningRef.current = true
-        setTargetRotation(newRotation)
-        setFacingRight(movingRight)
-      } else if (!directionChanged) {
-        // Same direction, just running
-        console.log('Cat running - using cat_run.glb')
-      }
-      
-      previousPositionRef.current = horizontalPosition
+  // Move the frame between the stops. It's written straight to the DOM on
+  // scroll so the page doesn't re-render, and the view tracks it from there
+  useEffect(() => {
+    const container = containerRef.current
+    const frame = frameRef.current
+    if (!container || !frame) return
+    const stops = [
+      from && document.getElementById(from),
+      container,
+      to && document.getElementById(to),
+    ].filter((stop): stop is HTMLElement => !!stop)
+    setStage(stops.indexOf(container))
 
-      // Clear existing timeout
-      if (moveTimeoutRef.current) {
-        clearTimeout(moveTimeoutRef.current)
+    const place = () => {
+      const rects = stops.map((stop) => stop.getBoundingClientRect())
+      const journey = getJourney(rects, window.innerHeight)
+      // Jump between the stops rather than gliding
+      if (reducedMotion && journey.from !== journey.to) {
+        journey.t = Math.round(journey.t)
       }
+      journeyRef.current = journey
 
-      // Set timeout to switch to idle after position stops changing
-      moveTimeoutRef.current = setTimeout(() => {
-        // Helper function to check if rotation is at a stable facing angle
-        const isAtStableFacingAngle = (rotation: number) => {
-          // Normalize rotation to -π to π range
-          const normalized = ((rotation % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2)
-          const adjusted = normalized > Math.PI ? normalized - Math.PI * 2 : normalized
-          
-          // Check if facing right (π/2) or left (-π/2) within a small tolerance
-          const facingRight = Math.abs(adjusted - Math.PI / 2) < 0.1
-          const facingLeft = Math.abs(adjusted + Math.PI / 2) < 0.1
-          
-          return facingRight || facingLeft
-        }
-        
-        // Only go idle if turn is complete AND at stable angle
-        if (!isTurningRef.current && isAtStableFacingAngle(currentRotationRef.current)) {
-          console.log('Cat idle - using cat_idle.glb at stable angle:', currentRotationRef.current)
-          setIsMoving(false)
-        } else {
-          console.log('Waiting for turn to complete and reach stable angle before idling')
-          // Re-check after a short delay to allow turn to finish
-          const idleCheckInterval = setInterval(() => {
-            if (!isTurningRef.current && isAtStableFacingAngle(currentRotationRef.current)) {
-              console.log('Turn complete and stable angle reached - Cat now idle')
-              setIsMoving(false)
-              clearInterval(idleCheckInterval)
-            }
-          }, 50)
-          
-          // Failsafe: force idle after 3 seconds (increased from 2)
-          setTimeout(() => {
-            clearInterval(idleCheckInterval)
-            if (isMoving) {
-              console.log('Forcing idle state')
-              setIsMoving(false)
-              isTurningRef.current = false
-            }
-          }, 3000)
-        }
-      }, 150)
+      const rect = getJourneyRect(rects, journey)
+      frame.style.left = `${rect.left}px`
+      frame.style.top = `${rect.top}px`
+      frame.style.width = `${rect.width}px`
+      frame.style.height = `${rect.height}px`
+      // Let clicks through to the page while it's between stops
+      frame.style.pointerEvents = journey.from === journey.to ? '' : 'none'
     }
 
+    place()
+    const observer = new ResizeObserver(place)
+    observer.observe(document.documentElement)
+    window.addEventListener('scroll', place, { passive: true })
+    window.addEventListener('resize', place)
     return () => {
-      if (moveTimeoutRef.current) {
-        clearTimeout(moveTimeoutRef.current)
-      }
+      observer.disconnect()
+      window.removeEventListener('scroll', place)
+      window.removeEventListener('resize', place)
     }
-  }, [horizontalPosition, facingRight, isMoving])
+  }, [from, to, reducedMotion])
 
-  // Smooth rotation transition with natural easing
-  useEffect(() => {
-    // Only animate rotation when moving, lock rotation when idle
-    if (!isMoving && !isTurningRef.current) {
-      // Snap rotation to proper facing angle when idle
-      const normalized = ((targetRotation % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2)
-      const adjusted = normalized > Math.PI ? normalized - Math.PI * 2 : normalized
-      
-      // Snap to closest proper angle (π/2 for right, -π/2 for left)
-      const snappedRotation = adjusted > 0 ? Math.PI / 2 : -Math.PI / 2
-      
-      console.log('Locking rotation at stable angle:', snappedRotation)
-      setCurrentRotation(snappedRotation)
-      currentRotationRef.current = snappedRotation
-      return
-    }
+  const modelPath = moving && !reducedMotion ? '/cat_run.glb' : '/cat_idle.glb'
 
-    const rotationSpeed = 0.12 // Slightly slower for more natural feel
-    
-    const animateRotation = () => {
-      setCurrentRotation((current) => {
-        const diff = targetRotation - current
-        if (Math.abs(diff) < 0.01) {
-          // Turn is complete - allow new turns
-          if (isTurningRef.current) {
-            console.log('Turn rotation completed - ready for new direction changes')
-            isTurningRef.current = false
-          }
-          
-          // Normalize rotation to keep it within a reasonable range
-          const normalized = ((targetRotation % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2)
-          const finalRotation = normalized > Math.PI ? normalized - Math.PI * 2 : normalized
-          currentRotationRef.current = finalRotation
-          return finalRotation
-        }
-        const newRotation = current + diff * rotationSpeed
-        currentRotationRef.current = newRotation
-        return newRotation
-      })
-    }
-
-    const interval = setInterval(animateRotation, 16) // ~60fps
-    return () => clearInterval(interval)
-  }, [targetRotation, isMoving])
-  
-  const modelRotation: [number, number, number] = [0, currentRotation, 0]
-  const modelPath = isMoving ? '/cat_run.glb' : '/cat_idle.glb'
-
-  // Fixed camera position (doesn't follow the cat)
-  const cameraX = 0
-  const cameraY = 2
-  const cameraZ = 12
-  
   // Adjust FOV based on screen width for better responsiveness
   const fov = screenWidth < 640 ? 70 : screenWidth < 1024 ? 65 : 60
 
   return (
-    <div ref={containerRef} className="w-full h-[200px] sm:h-[250px] md:h-[300px] relative border-4 border-purple-500 rounded-lg overflow-hidden">
-      <Canvas>
-        <PerspectiveCamera makeDefault position={[cameraX, cameraY, cameraZ]} fov={fov} />
-        <OrbitControls
-          enabled={false}
-          enableDamping
-          dampingFactor={0.05}
-          target={[0, 1, 0]}
-        />
-
-        <ambientLight intensity={0} />
-        <directionalLight position={[10, 10, 5]} intensity={0} />
-        <pointLight position={[-10, -10, -5]} intensity={0.5} />
-
-        <group position={[horizontalPosition, 1, 0]} scale={0.1}>
-          <Suspense fallback={null}>
-            <Model
-              key={modelPath}
-              modelPath={modelPath}
-              particleColor="#00ffff"
-              meshColor="#F3F3F3"
-              meshOpacity={0.05}
-              particleSize={0.2}
-              sampleRate={1}
-              animated={true}
-              showMesh={true}
-              rotation={modelRotation}
-              autoRotate={false}
-              interactive={true}
-              disperseRadius={6}
-              disperseStrength={100}
-              returnSpeed={1.0}
-              use3DGradient={true}
-              gradientColors={
-                isDark
-                  ? [
-                      { color: '#ff00ff', position: [0, 0, 1] },
-                      { color: '#00ffff', position: [1, 0, 1] },
-                    ]
-                  : [
-                      { color: '#FF4800', position: [1, 0, 0] },
-                      { color: '#003BDD', position: [0, 0, 1] },
-                    ]
-              }
-              gradientBlendPower={2.0}
-              playAnimation={true}
-              animationIndex={0}
-            />
-          </Suspense>
-        </group>
-      </Canvas>
+    <div
+      ref={containerRef}
+      className="w-full h-[200px] sm:h-[250px] md:h-[300px] relative border-4 border-purple-500 rounded-lg overflow-hidden"
+    >
+      <div ref={frameRef} className="fixed">
+        <ConfiguredScene
+          config={runningCatScene}
+          camera={{ fov }}
+          palette={palette}
+          reducedMotion={reducedMotion}
+          description={reducedMotion ? stillDescription : undefined}
+          models={[
+            {
+              groupRef: catRef,
+              model: { modelPath, groundSpeed: groundSpeedRef },
+            },
+          ]}
+        >
+          <CatLocomotion
+            catRef={catRef}
+            timeline={timeline}
+            journeyRef={journeyRef}
+            stage={stage}
+            groundSpeedRef={groundSpeedRef}
+            follow={following}
+            reducedMotion={reducedMotion}
+            onPhaseChange={(phase) => setMoving(isMoving(phase))}
+          />
+        </ConfiguredScene>
+      </div>
+      {!reducedMotion && (
+        <button
+          type="button"
+          onClick={() => setFollowing((follow) => !follow)}
+          aria-label="Have the cat follow the pointer"
+          aria-pressed={following}
+          title="Follow the pointer"
+          className="absolute bottom-2 right-2 z-10 p-2 rounded-full bg-white/80 dark:bg-slate-800/80 backdrop-blur border border-purple-300 dark:border-purple-700 text-purple-500 dark:text-purple-400 aria-pressed:bg-purple-500 aria-pressed:text-white shadow-sm hover:scale-105 transition-all"
+        >
+          <Cat className="w-4 h-4" />
+        </button>
+      )}
     </div>
   )
 }
-
@@ -1,28 +1,13 @@
 'use client'
 
-import { useState, useEffect, Suspense } from 'react'
-import { Canvas } from '@react-three/fiber'
-import { OrbitControls, PerspectiveCamera } from '@react-three/drei'
-import { Model } from './Model'
-//import { useTheme } from '../pages/Version2/context/ThemeContext'
-
+// The hero's box, where the running section's cat sits before the page is
+// scrolled. The cat itself is drawn by RunningCatScene
 export default function Scene() {
-  const [scrollY, setScrollY] = useState(0)
-  const  isDark = true //useTheme()
-
-  useEffect(() => {
-    const handleScroll = () => {
-      setScrollY(window.scrollY)
-    }
-
-    window.addEventListener('scroll', handleScroll)
-    return () => window.removeEventListener('scroll', handleScroll)
-  }, [])
-
-  const modelRotation: [number, number, number] = [0, scrollY * 0.001, 0]
-
   return (
-    <div className="w-full h-screen relative border-4 border-orange-500">
+    <div
+      id="hero-cat"
+      className="w-full h-screen relative border-4 border-orange-500"
+    >
       {/* Dialogue Box */}
       <div className="absolute top-8 right-8 z-10 bg-slate-50 dark:bg-slate-900 px-6 py-4 rounded-2xl shadow-2xl border-2 border-orange-500 max-w-xs">
         <div className="relative">
@@ -39,55 +24,6 @@ export default function Scene() {
         {/* Inner triangle (fill) */}
         <div className="absolute -bottom-[13px] right-[101px] w-0 h-0 border-l-[12px] border-l-transparent border-r-[12px] border-r-transparent border-t-[14px] border-t-slate-50 dark:border-t-slate-900"></div>
       </div>
-      <Canvas>
-        <PerspectiveCamera makeDefault position={[5, 7, 10]} />
-        <OrbitControls
-          enabled={true}
-          enableDamping
-          dampingFactor={0.05}
-          target={[0, 0, 2]}
-        />
-
-        <ambientLight intensity={0} />
-        <directionalLight position={[10, 10, 5]} intensity={0} />
-        <pointLight position={[-10, -10, -5]} intensity={0.5} />
-
-        <group position={[0, 1, 0]} scale={0.1}>
-          <Suspense fallback={null}>
-            <Model
-              modelPath="/cat_idle.glb"
-              particleColor="#00ffff"
-              meshColor="#F3F3F3"
-              meshOpacity={0.05}
-              particleSize={0.2}
-              sampleRate={1}
-              animated={true}
-              showMesh={true}
-              rotation={modelRotation}
-              autoRotate={false}
-              interactive={true}
-              disperseRadius={6}
-              disperseStrength={100}
-              returnSpeed={1.0}
-              use3DGradient={true}
-              gradientColors={
-                isDark
-                  ? [
-                      { color: '#ff00ff', position: [0, 0, 1] },
-                      { color: '#00ffff', position: [1, 0, 1] },
-                    ]
-                  : [
-                      { color: '#FF4800', position: [1, 0, 0] },
-                      { color: '#003BDD', position: [0, 0, 1] },
-                    ]
-              }
-              gradientBlendPower={2.0}
-              playAnimation={true}
-              animationIndex={0}
-            />
-          </Suspense>
-        </group>
-      </Canvas>
     </div>
   )
 }
@@ -0,0 +1,116 @@
+'use client'
+
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type ReactNode,
+} from 'react'
+import { Canvas, useThree } from '@react-three/fiber'
+import { PerformanceMonitor, View } from '@react-three/drei'
+import {
+  DEFAULT_PERFORMANCE_BUDGET,
+  getQuality,
+  type PerformanceBudget,
+} from './adaptiveQuality'
+import { usePreloadModels } from './modelAssets'
+
+// From 0, the lowest quality, to 1. Shared by every view on the canvas
+const QualityFactorContext = createContext(1)
+
+// The DOM element a view tracks. Pointer events over the view land on it,
+// never on the shared canvas
+export const ViewElementContext = createContext<HTMLElement | null>(null)
+
+// Counts a view as on screen until the returned function is called
+const ActiveViewContext = createContext<() => () => void>(() => () => {})
+
+export function useQualityFactor() {
+  return useContext(QualityFactorContext)
+}
+
+export function useViewElement() {
+  return useContext(ViewElementContext)
+}
+
+// Keeps the shared canvas rendering while `active`, usually while the view
+// is on screen. With no view active it stops
+export function useActiveView(active: boolean) {
+  const addActiveView = useContext(ActiveViewContext)
+  useEffect(() => {
+    if (active) return addActiveView()
+  }, [active, addActiveView])
+}
+
+// Where to listen for pointer events over this scene
+export function usePointerSurface() {
+  const gl = useThree((state) => state.gl)
+  return useViewElement() ?? gl.domElement
+}
+
+// Loads the page's models while the first views are still setting up
+function PreloadModels() {
+  usePreloadModels()
+  return null
+}
+
+// One more frame whenever the count changes, so a view that just left the
+// screen doesn't leave its last frame behind on the fixed canvas
+function RenderOnChange({ activeViews }: { activeViews: number }) {
+  const invalidate = useThree((state) => state.invalidate)
+  useEffect(() => invalidate(), [activeViews, invalidate])
+  return null
+}
+
+interface SceneCanvasProps {
+  // Frame rate and pixel ratio limits for the whole canvas
+  performance?: Partial<PerformanceBudget> | null
+  children: ReactNode
+}
+
+// One fixed, full-page canvas for every 3D section. Sections draw into it
+// through drei Views that follow their DOM elements, so they share one WebGL
+// context, one upload of each asset and one render loop
+export function SceneCanvas({ performance, children }: SceneCanvasProps) {
+  // Set before the canvas mounts, which is all eventSource needs
+  const containerRef = useRef<HTMLDivElement>(null!)
+  const budget = { ...DEFAULT_PERFORMANCE_BUDGET, ...performance }
+  const [qualityFactor, setQualityFactor] = useState(1)
+  const quality = getQuality(budget, qualityFactor)
+  const [activeViews, setActiveViews] = useState(0)
+  const [addActiveView] = useState(() => () => {
+    setActiveViews((count) => count + 1)
+    return () => setActiveViews((count) => count - 1)
+  })
+
+  return (
+    <div ref={containerRef}>
+      <QualityFactorContext.Provider value={qualityFactor}>
+        <ActiveViewContext.Provider value={addActiveView}>
+          {children}
+        </ActiveViewContext.Provider>
+      </QualityFactorContext.Provider>
+      {/* Over the page, so section backgrounds don't hide it. It only draws
+          inside views, and lets pointer events through to the page */}
+      <Canvas
+        eventSource={containerRef}
+        style={{ position: 'fixed', inset: 0 }}
+        // Nothing on screen, nothing to draw
+        frameloop={activeViews > 0 ? 'always' : 'demand'}
+        // Never sharper than the screen
+        dpr={[budget.minDpr, quality.dpr]}
+      >
+        <PerformanceMonitor
+          factor={qualityFactor}
+          bounds={() => [budget.minFps, budget.maxFps]}
+          onChange={({ factor }) => setQualityFactor(factor)}
+        />
+        <RenderOnChange activeViews={activeViews} />
+        <PreloadModels />
+        <View.Port />
+      </Canvas>
+    </div>
+  )
+}
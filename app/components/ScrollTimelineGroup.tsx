@@ -0,0 +1,76 @@
+'use client'
+
+import { useRef, type ReactNode, type RefObject } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import {
+  advanceScrollTimeline,
+  sampleNumber,
+  sampleVector,
+  type ScrollTimeline,
+  type ScrollTracks,
+} from './scrollTimeline'
+
+interface ScrollTimelineGroupProps {
+  timeline: RefObject<ScrollTimeline>
+  tracks: ScrollTracks
+  children?: ReactNode
+}
+
+const _rotation = new THREE.Vector3()
+const _target = new THREE.Vector3()
+
+// Drives its children, the camera and their shader uniforms from the
+// timeline's keyframes every frame
+export function ScrollTimelineGroup({
+  timeline,
+  tracks,
+  children,
+}: ScrollTimelineGroupProps) {
+  const groupRef = useRef<THREE.Group>(null)
+
+  useFrame((state, delta) => {
+    const group = groupRef.current
+    if (!group) return
+
+    const progress = advanceScrollTimeline(
+      timeline.current,
+      delta,
+      state.clock.elapsedTime,
+    )
+
+    if (tracks.position) sampleVector(tracks.position, progress, group.position)
+    if (tracks.rotation) {
+      group.rotation.setFromVector3(
+        sampleVector(tracks.rotation, progress, _rotation),
+      )
+    }
+    if (tracks.scale)
+      group.scale.setScalar(sampleNumber(tracks.scale, progress))
+
+    if (tracks.cameraPosition) {
+      sampleVector(tracks.cameraPosition, progress, state.camera.position)
+    }
+    if (tracks.cameraTarget) {
+      state.camera.lookAt(sampleVector(tracks.cameraTarget, progress, _target))
+    }
+
+    const { uniforms } = tracks
+    if (uniforms) {
+      group.traverse((child) => {
+        const material = (child as THREE.Mesh).material
+        if (!(material instanceof THREE.ShaderMaterial)) return
+        for (const name in uniforms) {
+          if (material.uniforms[name]) {
+            material.uniforms[name].value = sampleNumber(
+              uniforms[name],
+              progress,
+            )
+          }
+        }
+      })
+    }
+  })
+
+  return <group ref={groupRef}>{children}</group>
+}
@@ -0,0 +1,83 @@
+'use client'
+
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useSyncExternalStore,
+  type ReactNode,
+} from 'react'
+import {
+  SCENE_PALETTES,
+  THEME_STORAGE_KEY,
+  type Theme,
+  type ThemePreference,
+} from './theme'
+import {
+  createMediaQueryStore,
+  createStoredPreference,
+} from './preferenceStore'
+
+interface ThemeContextValue {
+  theme: Theme
+  preference: ThemePreference
+  setPreference: (preference: ThemePreference) => void
+  toggleTheme: () => void
+}
+
+const ThemeContext = createContext<ThemeContextValue | null>(null)
+
+const themePreference = createStoredPreference<ThemePreference>(
+  THEME_STORAGE_KEY,
+  ['light', 'dark'],
+  'system',
+)
+const systemDark = createMediaQueryStore('(prefers-color-scheme: dark)')
+
+// Follows prefers-color-scheme until the user picks a theme, which is
+// remembered in localStorage. Sets the `dark` class Tailwind's dark: reads
+export function ThemeProvider({ children }: { children: ReactNode }) {
+  const preference = useSyncExternalStore(
+    themePreference.subscribe,
+    themePreference.get,
+    () => 'system' as const,
+  )
+  const prefersDark = useSyncExternalStore(
+    systemDark.subscribe,
+    systemDark.get,
+    () => true,
+  )
+  const theme: Theme =
+    preference !== 'system' ? preference : prefersDark ? 'dark' : 'light'
+
+  useEffect(() => {
+    const root = document.documentElement
+    root.classList.toggle('dark', theme === 'dark')
+    root.style.colorScheme = theme
+  }, [theme])
+
+  const value = useMemo<ThemeContextValue>(
+    () => ({
+      theme,
+      preference,
+      setPreference: themePreference.set,
+      toggleTheme: () =>
+        themePreference.set(theme === 'dark' ? 'light' : 'dark'),
+    }),
+    [theme, preference],
+  )
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>
+}
+
+export function useTheme() {
+  const context = useContext(ThemeContext)
+  if (!context) throw new Error('useTheme must be used inside a ThemeProvider')
+  return context
+}
+
+// The 3D colors for the current theme
+export function useScenePalette() {
+  return SCENE_PALETTES[useTheme().theme]
+}
@@ -0,0 +1,26 @@
+'use client'
+
+import { Moon, Sun } from 'lucide-react'
+import { useTheme } from './ThemeProvider'
+
+export function ThemeToggle() {
+  const { theme, toggleTheme } = useTheme()
+  const label =
+    theme === 'dark' ? 'Switch to light theme' : 'Switch to dark theme'
+
+  return (
+    <button
+      type="button"
+      onClick={toggleTheme}
+      aria-label={label}
+      title={label}
+      className="fixed top-4 right-4 z-50 p-2.5 rounded-full bg-white/80 dark:bg-slate-800/80 backdrop-blur border border-orange-200 dark:border-orange-800 text-orange-500 dark:text-orange-400 shadow-sm hover:scale-105 transition-all"
+    >
+      {theme === 'dark' ? (
+        <Sun className="w-5 h-5" />
+      ) : (
+        <Moon className="w-5 h-5" />
+      )}
+    </button>
+  )
+}
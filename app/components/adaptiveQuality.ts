@@ -0,0 +1,66 @@
+import * as THREE from 'three'
+
+// Limits adaptive quality works within. Quality drops while the average
+// frame rate is under minFps and rises again while it's over maxFps
+export interface PerformanceBudget {
+  minFps: number
+  maxFps: number
+  minDpr: number
+  maxDpr: number
+  // Lowest share of particles drawn and simulated
+  minDensity: number
+  // Physics steps per second at the lowest and highest quality
+  minPhysicsRate: number
+  maxPhysicsRate: number
+}
+
+// The part of the budget each scene sets for itself. Frame rate and pixel
+// ratio belong to the canvas every scene shares
+export type ScenePerformanceBudget = Pick<
+  PerformanceBudget,
+  'minDensity' | 'minPhysicsRate' | 'maxPhysicsRate'
+>
+
+export const DEFAULT_PERFORMANCE_BUDGET: PerformanceBudget = {
+  minFps: 40,
+  maxFps: 55,
+  minDpr: 0.75,
+  maxDpr: 2,
+  minDensity: 0.35,
+  minPhysicsRate: 20,
+  maxPhysicsRate: 60,
+}
+
+export interface Quality {
+  dpr: number
+  particleDensity: number
+  physicsRate: number
+}
+
+// `factor` runs from 0, the lowest quality the budget allows, to 1
+export function getQuality(budget: PerformanceBudget, factor: number): Quality {
+  const { lerp } = THREE.MathUtils
+  return {
+    dpr: lerp(budget.minDpr, budget.maxDpr, factor),
+    particleDensity: lerp(budget.minDensity, 1, factor),
+    physicsRate: lerp(budget.minPhysicsRate, budget.maxPhysicsRate, factor),
+  }
+}
+
+// Time to step physics by this frame, or 0 to skip it. Whole intervals of
+// the rate are taken and the remainder carries over, so over time steps
+// match the rate whatever the display's
+export function takePhysicsStep(
+  clock: { elapsed: number },
+  rate: number,
+  delta: number,
+) {
+  // A long pause shouldn't fling the particles
+  if (rate <= 0) return Math.min(delta, 0.1)
+
+  const interval = 1 / rate
+  clock.elapsed += delta
+  const steps = Math.floor(clock.elapsed / interval)
+  clock.elapsed -= steps * interval
+  return Math.min(steps * interval, 0.1)
+}
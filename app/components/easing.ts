@@ -0,0 +1,24 @@
+export type EasingFunction = (t: number) => number
+
+export const easings = {
+  linear: (t: number) => t,
+  easeInQuad: (t: number) => t * t,
+  easeOutQuad: (t: number) => t * (2 - t),
+  easeInOutQuad: (t: number) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
+  easeInCubic: (t: number) => t * t * t,
+  easeOutCubic: (t: number) => {
+    const f = t - 1
+    return f * f * f + 1
+  },
+  easeInOutCubic: (t: number) =>
+    t < 0.5 ? 4 * t * t * t : (t - 1) * (2 * t - 2) * (2 * t - 2) + 1,
+  easeInOutSine: (t: number) => -(Math.cos(Math.PI * t) - 1) / 2,
+} satisfies Record<string, EasingFunction>
+
+export type EasingName = keyof typeof easings
+
+export type Easing = EasingName | EasingFunction
+
+export function resolveEasing(easing: Easing): EasingFunction {
+  return typeof easing === 'function' ? easing : easings[easing]
+}
@@ -0,0 +1,63 @@
+import * as THREE from 'three'
+
+// One of a model's moving clips, like walk, trot or run
+export interface Gait {
+  clip: string
+  // Ground speed, in world units per second, the clip's stride covers at
+  // its normal rate. Gaits blend between neighbouring gaits' speeds
+  speed: number
+  // Playback rate limits, so setting off doesn't freeze the legs and a
+  // sprint doesn't blur them
+  minTimeScale?: number
+  maxTimeScale?: number
+}
+
+export interface GaitBlend {
+  clip: string
+  weight: number
+  timeScale: number
+}
+
+const DEFAULT_MIN_TIME_SCALE = 0.2
+const DEFAULT_MAX_TIME_SCALE = 2
+
+// Sorted by speed, without gaits whose speed can't be blended: non-positive
+// ones, and repeats of a speed already taken
+export function sortGaits(gaits: Gait[]) {
+  return [...gaits]
+    .filter((gait) => gait.speed > 0)
+    .sort((a, b) => a.speed - b.speed)
+    .filter((gait, i, sorted) => i === 0 || gait.speed > sorted[i - 1].speed)
+}
+
+// Weights and rates for gaits from sortGaits. The two gaits either side of
+// the ground speed share the weight, and each plays at the rate that keeps
+// its feet planted. With fadeOut, below the slowest gait's speed its weight
+// fades to 0 at a standstill, leaving the model's other clips, like idle
+export function getGaitBlend(
+  gaits: Gait[],
+  speed: number,
+  fadeOut = true,
+): GaitBlend[] {
+  const { clamp } = THREE.MathUtils
+  return gaits.map((gait, i) => {
+    const slower = gaits[i - 1]
+    const faster = gaits[i + 1]
+    let weight = 1
+    if (speed < gait.speed && (slower || fadeOut)) {
+      const from = slower?.speed ?? 0
+      weight = (speed - from) / (gait.speed - from)
+    } else if (speed > gait.speed && faster) {
+      weight = (faster.speed - speed) / (faster.speed - gait.speed)
+    }
+    return {
+      clip: gait.clip,
+      weight: clamp(weight, 0, 1),
+      timeScale: clamp(
+        speed / gait.speed,
+        gait.minTimeScale ?? DEFAULT_MIN_TIME_SCALE,
+        gait.maxTimeScale ?? DEFAULT_MAX_TIME_SCALE,
+      ),
+    }
+  })
+}
@@ -0,0 +1,138 @@
+// Walking a model to a target along a path: idle → accelerate → run →
+// decelerate → idle, with turns made standing still. stepLocomotion is pure,
+// so the same state and input always give the same next state
+
+export type LocomotionPhase =
+  'idle' | 'accelerate' | 'run' | 'turn' | 'decelerate'
+
+export type Facing = 1 | -1
+
+export interface LocomotionState {
+  phase: LocomotionPhase
+  // How far along the path
+  distance: number
+  // Ground speed along `facing`, never negative
+  speed: number
+  // 1 travels toward the end of the path, -1 back toward its start
+  facing: Facing
+  // Radians turned away from the path's direction: 0 facing along it, -π
+  // facing back, in between while turning
+  turn: number
+}
+
+export interface LocomotionTuning {
+  maxSpeed: number
+  acceleration: number
+  deceleration: number
+  // Radians per second
+  turnSpeed: number
+  // How far the target has to be before setting off, so small scrolls
+  // don't start and stop the model
+  startDistance: number
+}
+
+export const DEFAULT_LOCOMOTION_TUNING: LocomotionTuning = {
+  maxSpeed: 20,
+  acceleration: 30,
+  deceleration: 40,
+  turnSpeed: 6,
+  startDistance: 0.5,
+}
+
+// Turning through -π/2 shows the camera the model's face, not its back
+export function getFacingTurn(facing: Facing) {
+  return facing === 1 ? 0 : -Math.PI
+}
+
+export function createLocomotionState(
+  distance: number,
+  facing: Facing = 1,
+): LocomotionState {
+  return {
+    phase: 'idle',
+    distance,
+    speed: 0,
+    facing,
+    turn: getFacingTurn(facing),
+  }
+}
+
+// Whether the phase shows the moving clip
+export function isMoving(phase: LocomotionPhase) {
+  return phase === 'accelerate' || phase === 'run' || phase === 'decelerate'
+}
+
+// Travel along the facing at the state's speed
+function move(state: LocomotionState, delta: number): LocomotionState {
+  return {
+    ...state,
+    distance: state.distance + state.facing * state.speed * delta,
+    turn: getFacingTurn(state.facing),
+  }
+}
+
+export function stepLocomotion(
+  state: LocomotionState,
+  targetDistance: number,
+  delta: number,
+  tuning: LocomotionTuning = DEFAULT_LOCOMOTION_TUNING,
+): LocomotionState {
+  const offset = targetDistance - state.distance
+  const direction: Facing = offset < 0 ? -1 : 1
+  const far = Math.abs(offset) > tuning.startDistance
+  const ahead = direction === state.facing
+  const stoppingDistance =
+    (state.speed * state.speed) / (2 * tuning.deceleration)
+  const stopsInTime = Math.abs(offset) <= stoppingDistance
+
+  // From a standstill: set off, turn around first, or stay put
+  const fromRest = (rest: LocomotionState): LocomotionState => {
+    if (!far) return { ...rest, phase: 'idle', speed: 0 }
+    if (direction !== rest.facing) {
+      return { ...rest, phase: 'turn', speed: 0, facing: direction }
+    }
+    return { ...rest, phase: 'accelerate', speed: 0 }
+  }
+
+  switch (state.phase) {
+    case 'idle':
+      return fromRest(state)
+
+    case 'turn': {
+      // A reversal mid-turn turns back from wherever the turn has got to,
+      // so fast scrolling can't leave the model stuck sideways
+      const facing = far && !ahead ? direction : state.facing
+      const goal = getFacingTurn(facing)
+      const remaining = goal - state.turn
+      const step = tuning.turnSpeed * delta
+      if (Math.abs(remaining) > step) {
+        const turn = state.turn + Math.sign(remaining) * step
+        return { ...state, facing, turn }
+      }
+      return fromRest({ ...state, facing, turn: goal })
+    }
+
+    case 'accelerate':
+    case 'run': {
+      if (!ahead || stopsInTime) {
+        return move({ ...state, phase: 'decelerate' }, delta)
+      }
+      const speed = Math.min(
+        state.speed + tuning.acceleration * delta,
+        tuning.maxSpeed,
+      )
+      const phase = speed >= tuning.maxSpeed ? 'run' : 'accelerate'
+      return move({ ...state, phase, speed }, delta)
+    }
+
+    case 'decelerate': {
+      // The target ran on ahead again
+      if (ahead && far && !stopsInTime) {
+        return move({ ...state, phase: 'accelerate' }, delta)
+      }
+      const speed = Math.max(state.speed - tuning.deceleration * delta, 0)
+      if (speed > 0) return move({ ...state, speed }, delta)
+      return fromRest({ ...state, speed: 0 })
+    }
+  }
+}
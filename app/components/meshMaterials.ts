@@ -0,0 +1,162 @@
+import * as THREE from 'three'
+
+// How the model's own mesh renders under the particles
+export type MeshMode =
+  'standard' | 'original' | 'wireframe' | 'hologram' | 'matcap' | 'xray'
+
+export interface MeshMaterialOptions {
+  color: THREE.ColorRepresentation
+  opacity: number
+  // Fresnel rim of the hologram and x-ray modes
+  rimColor: string
+  rimPower: number
+  // Frequency of the scrolling hologram scanlines on screen, 0 for none
+  scanlines: number
+  matcap: THREE.Texture | null
+}
+
+// Rim lighting from the angle between the surface and the view, skinned
+// with three's own chunks so animated meshes keep moving
+const fresnelVertexShader = /* glsl */ `
+  #include <common>
+  #include <skinning_pars_vertex>
+
+  varying vec3 vNormal;
+  varying vec3 vViewPosition;
+
+  void main() {
+    #include <beginnormal_vertex>
+    #include <skinbase_vertex>
+    #include <skinnormal_vertex>
+    #include <defaultnormal_vertex>
+    #include <begin_vertex>
+    #include <skinning_vertex>
+    #include <project_vertex>
+
+    vNormal = normalize(transformedNormal);
+    vViewPosition = -mvPosition.xyz;
+  }
+`
+
+const fresnelFragmentShader = /* glsl */ `
+  uniform vec3 color;
+  uniform vec3 rimColor;
+  uniform float rimPower;
+  uniform float opacity;
+  uniform float scanlines;
+  uniform float time;
+
+  varying vec3 vNormal;
+  varying vec3 vViewPosition;
+
+  void main() {
+    float facing = abs(dot(normalize(vNormal), normalize(vViewPosition)));
+    float rim = pow(1.0 - facing, rimPower);
+    float scan = scanlines > 0.0
+      ? 0.75 + 0.25 * sin(gl_FragCoord.y * scanlines + time * 4.0)
+      : 1.0;
+
+    gl_FragColor = vec4(mix(color, rimColor, rim), (opacity + rim) * scan);
+  }
+`
+
+function createFresnelMaterial(options: MeshMaterialOptions, xray: boolean) {
+  return new THREE.ShaderMaterial({
+    vertexShader: fresnelVertexShader,
+    fragmentShader: fresnelFragmentShader,
+    uniforms: {
+      // X-ray only shows the rim, seen through the whole body
+      color: { value: new THREE.Color(xray ? '#000000' : options.color) },
+      rimColor: { value: new THREE.Color(options.rimColor) },
+      rimPower: { value: options.rimPower },
+      opacity: { value: xray ? 0 : options.opacity },
+      scanlines: { value: xray ? 0 : options.scanlines },
+      time: { value: 0 },
+    },
+    transparent: true,
+    side: THREE.DoubleSide,
+    depthWrite: !xray,
+    blending: xray ? THREE.AdditiveBlending : THREE.NormalBlending,
+  })
+}
+
+// null for 'original', which keeps the loaded materials
+export function createMeshMaterial(
+  mode: MeshMode,
+  options: MeshMaterialOptions,
+): THREE.Material | null {
+  switch (mode) {
+    case 'original':
+      return null
+    case 'wireframe':
+      return new THREE.MeshBasicMaterial({
+        color: options.color,
+        transparent: options.opacity < 1,
+        opacity: options.opacity,
+        wireframe: true,
+      })
+    case 'hologram':
+      return createFresnelMaterial(options, false)
+    case 'xray':
+      return createFresnelMaterial(options, true)
+    case 'matcap':
+      return new THREE.MeshMatcapMaterial({
+        color: options.color,
+        matcap: options.matcap,
+        transparent: options.opacity < 1,
+        opacity: options.opacity,
+      })
+    default:
+      return new THREE.MeshStandardMaterial({
+        color: options.color,
+        transparent: options.opacity < 1,
+        opacity: options.opacity,
+        side: THREE.DoubleSide,
+      })
+  }
+}
+
+// Recolors a material from createMeshMaterial, x-ray keeps its black base
+export function setMeshMaterialColor(
+  material: THREE.Material,
+  color: THREE.Color,
+) {
+  if (material instanceof THREE.ShaderMaterial) {
+    if (material.blending !== THREE.AdditiveBlending) {
+      material.uniforms.color.value.copy(color)
+    }
+  } else if ('color' in material && material.color instanceof THREE.Color) {
+    material.color.copy(color)
+  }
+}
+
+export function loadMatcapTexture(url: string) {
+  const texture = new THREE.TextureLoader().load(url)
+  texture.colorSpace = THREE.SRGBColorSpace
+  return texture
+}
+
+// Loaded materials, so any mode can be switched back to 'original'
+const originalMaterials = new WeakMap<
+  THREE.Mesh,
+  THREE.Material | THREE.Material[]
+>()
+
+export function applyMeshMaterial(
+  object: THREE.Object3D,
+  material: THREE.Material | null,
+) {
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return
+    if (!originalMaterials.has(child)) {
+      originalMaterials.set(child, child.material)
+    }
+    child.material = material ?? originalMaterials.get(child)!
+    child.castShadow = true
+    child.receiveShadow = true
+  })
+}
+
+export function restoreMeshMaterials(object: THREE.Object3D) {
+  applyMeshMaterial(object, null)
+}
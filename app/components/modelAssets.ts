@@ -0,0 +1,82 @@
+import { useEffect } from 'react'
+import * as THREE from 'three'
+import { useThree } from '@react-three/fiber'
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils.js'
+import {
+  configureModelLoader,
+  getModelFormat,
+  getModelLoader,
+  toLoadedModel,
+  type LoadedModel,
+  type ModelFormat,
+} from './modelLoaders'
+import { reportModelProgress } from './modelProgress'
+
+export interface ModelAsset {
+  path: string
+  format?: ModelFormat
+}
+
+// Every model the page shows, fetched and parsed once up front
+export const MODEL_MANIFEST: ModelAsset[] = [
+  { path: '/cat_idle.glb' },
+  { path: '/cat_run.glb' },
+]
+
+const modelCache = new Map<string, Promise<LoadedModel>>()
+
+function getCacheKey(path: string, format?: ModelFormat) {
+  return `${getModelFormat(path, format)}:${path}`
+}
+
+// Fetches and parses a model once, for Model to read with use(). Whoever
+// asks first, preload or Model, the download reports its progress, and the
+// renderer lets KTX2 textures pick a transcode target
+export function loadModel(
+  path: string,
+  format: ModelFormat | undefined,
+  gl: THREE.WebGLRenderer,
+) {
+  const key = getCacheKey(path, format)
+  let model = modelCache.get(key)
+  if (!model) {
+    const Loader = getModelLoader(getModelFormat(path, format))
+    const loader = new Loader()
+    configureModelLoader(loader, gl)
+    model = loader
+      .loadAsync(path, (event) => reportModelProgress(path, event))
+      .then(toLoadedModel)
+    modelCache.set(key, model)
+  }
+  return model
+}
+
+// Forgets a load, so a failed one can be tried again
+export function clearModel(path: string, format?: ModelFormat) {
+  modelCache.delete(getCacheKey(path, format))
+}
+
+// Starts loading the manifest once the canvas has a renderer
+export function usePreloadModels(manifest: ModelAsset[] = MODEL_MANIFEST) {
+  const gl = useThree((state) => state.gl)
+
+  useEffect(() => {
+    for (const { path, format } of manifest) {
+      // Failures surface in the Model that shows it
+      loadModel(path, format, gl).catch(() => {})
+    }
+  }, [manifest, gl])
+}
+
+// The cached asset stays untouched: each Model gets its own scene graph and
+// skeletons bound to its own bones, sharing geometry, materials and clips
+export function cloneModel(model: LoadedModel): LoadedModel {
+  return { ...model, scene: cloneSkinned(model.scene) }
+}
+
+// Bone textures belong to the clone's skeletons, the rest is shared
+export function disposeModelClone(model: LoadedModel) {
+  model.scene.traverse((child) => {
+    if (child instanceof THREE.SkinnedMesh) child.skeleton.dispose()
+  })
+}
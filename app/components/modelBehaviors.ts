@@ -0,0 +1,109 @@
+import * as THREE from 'three'
+import type { ParticleEffector } from './particleEffectors'
+
+type ShockwaveEffector = Extract<ParticleEffector, { type: 'shockwave' }>
+
+// Turns a bone, usually the head, toward the pointer. Limits are radians
+// either side of the model's forward (+z)
+export interface LookAt {
+  bone: string
+  maxYaw?: number
+  maxPitch?: number
+  // How quickly the bone catches up, 0 snaps
+  speed?: number
+}
+
+// What a click or tap on the model does. Heights are in the model's own
+// units, and a burst needs interactive particles
+export interface ClickReaction {
+  jumpHeight?: number
+  jumpDuration?: number
+  burst?: Omit<ShockwaveEffector, 'type' | 'position'> | null
+  // Played once over the current clip
+  clip?: string
+}
+
+export const DEFAULT_LOOK_AT_LIMITS = { maxYaw: 0.8, maxPitch: 0.5, speed: 8 }
+
+const _raycaster = new THREE.Raycaster()
+const _box = new THREE.Box3()
+const _plane = new THREE.Plane()
+const _normal = new THREE.Vector3()
+const _origin = new THREE.Vector3()
+const _target = new THREE.Vector3()
+const _frame = new THREE.Quaternion()
+const _parent = new THREE.Quaternion()
+const _turn = new THREE.Quaternion()
+const _euler = new THREE.Euler()
+
+// Yaw and pitch from the bone to the pointer, in `frame`'s space. The
+// pointer sits on a plane facing the camera through the bone
+export function getLookAngles(
+  bone: THREE.Object3D,
+  frame: THREE.Object3D,
+  ndc: THREE.Vector2,
+  camera: THREE.Camera,
+  look: LookAt,
+) {
+  bone.getWorldPosition(_origin)
+  camera.getWorldDirection(_normal).negate()
+  _plane.setFromNormalAndCoplanarPoint(_normal, _origin)
+  _raycaster.setFromCamera(ndc, camera)
+  if (!_raycaster.ray.intersectPlane(_plane, _target)) return null
+
+  frame.worldToLocal(_target)
+  frame.worldToLocal(_origin)
+  _target.sub(_origin)
+  const { clamp } = THREE.MathUtils
+  const maxYaw = look.maxYaw ?? DEFAULT_LOOK_AT_LIMITS.maxYaw
+  const maxPitch = look.maxPitch ?? DEFAULT_LOOK_AT_LIMITS.maxPitch
+  return {
+    yaw: clamp(Math.atan2(_target.x, _target.z), -maxYaw, maxYaw),
+    pitch: clamp(
+      Math.atan2(_target.y, Math.hypot(_target.x, _target.z)),
+      -maxPitch,
+      maxPitch,
+    ),
+  }
+}
+
+// Adds a turn made in `frame`'s space on top of the bone's animated pose
+export function turnBone(
+  bone: THREE.Object3D,
+  frame: THREE.Object3D,
+  yaw: number,
+  pitch: number,
+) {
+  if (!bone.parent) return
+  frame.getWorldQuaternion(_frame)
+  bone.parent.getWorldQuaternion(_parent)
+
+  // frame · turn · frame⁻¹ carries the turn into world space, then
+  // parent⁻¹ · … · parent into the bone's parent space
+  _turn.setFromEuler(_euler.set(-pitch, yaw, 0, 'YXZ'))
+  _turn.premultiply(_frame).multiply(_frame.invert())
+  _turn.multiply(_parent).premultiply(_parent.invert())
+  bone.quaternion.premultiply(_turn)
+}
+
+// Where the pointer ray meets the object's bounds, or null if it misses
+export function hitObject(
+  object: THREE.Object3D,
+  ndc: THREE.Vector2,
+  camera: THREE.Camera,
+  target: THREE.Vector3,
+) {
+  _box.setFromObject(object)
+  _raycaster.setFromCamera(ndc, camera)
+  return _raycaster.ray.intersectBox(_box, target)
+}
+
+// Height of a jump `elapsed` seconds in, a parabola back to the ground
+export function getJumpOffset(
+  height: number,
+  duration: number,
+  elapsed: number,
+) {
+  const t = THREE.MathUtils.clamp(elapsed / duration, 0, 1)
+  return height * 4 * t * (1 - t)
+}
@@ -0,0 +1,111 @@
+import * as THREE from 'three'
+import { GLTFLoader, type GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js'
+import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js'
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js'
+import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js'
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js'
+import { XYZLoader } from 'three/examples/jsm/loaders/XYZLoader.js'
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js'
+
+export type ModelFormat = 'gltf' | 'obj' | 'fbx' | 'ply' | 'xyz'
+
+// Decoders copied from three/examples/jsm/libs into public/
+export const DRACO_DECODER_PATH = '/draco/'
+export const BASIS_TRANSCODER_PATH = '/basis/'
+
+const FORMATS_BY_EXTENSION: Record<string, ModelFormat> = {
+  glb: 'gltf',
+  gltf: 'gltf',
+  obj: 'obj',
+  fbx: 'fbx',
+  ply: 'ply',
+  xyz: 'xyz',
+}
+
+// Whatever the format, Model and Particles work with a scene and its clips
+export interface LoadedModel {
+  scene: THREE.Object3D
+  animations: THREE.AnimationClip[]
+  // Raw point clouds have nothing to render as a mesh
+  isPointCloud: boolean
+}
+
+export function getModelFormat(path: string, format?: ModelFormat) {
+  if (format) return format
+  const extension = path.split(/[?#]/)[0].split('.').pop()?.toLowerCase()
+  return FORMATS_BY_EXTENSION[extension ?? ''] ?? 'gltf'
+}
+
+export function getModelLoader(format: ModelFormat) {
+  switch (format) {
+    case 'obj':
+      return OBJLoader
+    case 'fbx':
+      return FBXLoader
+    case 'ply':
+      return PLYLoader
+    case 'xyz':
+      return XYZLoader
+    default:
+      return GLTFLoader
+  }
+}
+
+let dracoLoader: DRACOLoader | null = null
+let ktx2Loader: KTX2Loader | null = null
+
+// Draco, meshopt and KTX2 support for glTF, shared by every load. KTX2 needs
+// the renderer to pick a transcode target.
+export function configureModelLoader(
+  loader: THREE.Loader,
+  gl: THREE.WebGLRenderer,
+) {
+  if (!(loader instanceof GLTFLoader)) return
+
+  dracoLoader ??= new DRACOLoader().setDecoderPath(DRACO_DECODER_PATH)
+  loader.setDRACOLoader(dracoLoader)
+  loader.setMeshoptDecoder(MeshoptDecoder)
+
+  ktx2Loader ??= new KTX2Loader()
+    .setTranscoderPath(BASIS_TRANSCODER_PATH)
+    .detectSupport(gl)
+  loader.setKTX2Loader(ktx2Loader)
+}
+
+export function toLoadedModel(
+  result: GLTF | THREE.Object3D | THREE.BufferGeometry,
+): LoadedModel {
+  // PLY and XYZ load as bare geometry, faceless ones are point clouds
+  if (result instanceof THREE.BufferGeometry) {
+    if (result.index) {
+      if (!result.attributes.normal) result.computeVertexNormals()
+      const scene = new THREE.Mesh(result, new THREE.MeshStandardMaterial())
+      return { scene, animations: [], isPointCloud: false }
+    }
+
+    const scene = new THREE.Points(
+      result,
+      new THREE.PointsMaterial({
+        size: 0.01,
+        vertexColors: result.attributes.color !== undefined,
+      }),
+    )
+    return { scene, animations: [], isPointCloud: true }
+  }
+
+  // OBJ and FBX load as a group, FBX with its clips attached
+  if (result instanceof THREE.Object3D) {
+    let isPointCloud = true
+    result.traverse((child) => {
+      if (child instanceof THREE.Mesh) isPointCloud = false
+    })
+    return { scene: result, animations: result.animations, isPointCloud }
+  }
+
+  return {
+    scene: result.scene,
+    animations: result.animations,
+    isPointCloud: false,
+  }
+}
@@ -0,0 +1,34 @@
+import { useSyncExternalStore } from 'react'
+
+export interface ModelProgress {
+  loaded: number
+  // 0 when the server doesn't send a content length
+  total: number
+}
+
+const progressByPath = new Map<string, ModelProgress>()
+const listeners = new Set<() => void>()
+
+export function reportModelProgress(path: string, event: ProgressEvent) {
+  progressByPath.set(path, {
+    loaded: event.loaded,
+    total: event.lengthComputable ? event.total : 0,
+  })
+  listeners.forEach((listener) => listener())
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Bytes downloaded so far for a model file, null until the first event
+export function useModelProgress(path: string) {
+  return useSyncExternalStore(
+    subscribe,
+    () => progressByPath.get(path) ?? null,
+    () => null,
+  )
+}
@@ -0,0 +1,93 @@
+import * as THREE from 'three'
+
+type Vec3 = [number, number, number]
+
+// Path points with x in screen widths: -1 and 1 are the left and right
+// edges of the view at that point's depth, so paths fit any aspect ratio
+export type ScreenPathPoint = Vec3
+
+export interface MotionPath {
+  curve: THREE.CatmullRomCurve3
+  length: number
+  // Evenly spaced along the curve, for finding the nearest point
+  samples: THREE.Vector3[]
+}
+
+const PATH_SAMPLES = 128
+
+const _forward = new THREE.Vector3()
+const _offset = new THREE.Vector3()
+const _point = new THREE.Vector3()
+
+// Half the visible width at a world-space point, from the camera frustum
+export function getVisibleHalfWidth(
+  camera: THREE.PerspectiveCamera,
+  point: THREE.Vector3,
+) {
+  const forward = camera.getWorldDirection(_forward)
+  const depth = _offset.subVectors(point, camera.position).dot(forward)
+  const halfHeight =
+    (depth * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2)) / camera.zoom
+  return halfHeight * camera.aspect
+}
+
+// Places screen path points in the world, `margin` world units past the
+// edges so a model starting or ending there is fully out of view. Assumes
+// the camera looks down -z, as the scenes' cameras do
+export function resolveScreenPath(
+  points: ScreenPathPoint[],
+  camera: THREE.PerspectiveCamera,
+  margin = 0,
+) {
+  return points.map(([x, y, z]) => {
+    _point.set(camera.position.x, y, z)
+    const halfWidth = getVisibleHalfWidth(camera, _point) + margin
+    return new THREE.Vector3(camera.position.x + x * halfWidth, y, z)
+  })
+}
+
+// A smooth curve through the points, measured by arc length so models
+// move along it at their real speed
+export function createMotionPath(points: THREE.Vector3[]): MotionPath {
+  const curve = new THREE.CatmullRomCurve3(points, false, 'centripetal')
+  return {
+    curve,
+    length: curve.getLength(),
+    samples: curve.getSpacedPoints(PATH_SAMPLES),
+  }
+}
+
+export function sampleMotionPath(
+  path: MotionPath,
+  distance: number,
+  position: THREE.Vector3,
+  tangent: THREE.Vector3,
+) {
+  const u = THREE.MathUtils.clamp(distance / path.length, 0, 1)
+  path.curve.getPointAt(u, position)
+  path.curve.getTangentAt(u, tangent)
+}
+
+// Points a model's forward (+z) along the tangent, turned `turn` radians
+// about y. Pitch follows hops, flipping as the model turns to face back
+export function orientAlongTangent(
+  object: THREE.Object3D,
+  tangent: THREE.Vector3,
+  turn: number,
+) {
+  const yaw = Math.atan2(tangent.x, tangent.z)
+  const pitch = Math.atan2(tangent.y, Math.hypot(tangent.x, tangent.z))
+  object.rotation.set(-pitch * Math.cos(turn), yaw + turn, 0, 'YXZ')
+}
+
+// Distance along the path to the point nearest a world x, so a model can
+// head toward something beside the path
+export function getPathDistanceAtX(path: MotionPath, x: number) {
+  let nearest = 0
+  path.samples.forEach((point, i) => {
+    if (Math.abs(point.x - x) < Math.abs(path.samples[nearest].x - x)) {
+      nearest = i
+    }
+  })
+  return (nearest / (path.samples.length - 1)) * path.length
+}
@@ -0,0 +1,54 @@
+// Depth cues for the cloud: thin-lens depth of field that grows and softens
+// out-of-focus particles into bokeh discs, a depth fade, and three's scene fog
+export const depthParsVertex = /* glsl */ `
+  #include <fog_pars_vertex>
+
+  uniform float focusDistance;
+  uniform float aperture;
+
+  varying float vBlur;
+  varying float vViewDepth;
+
+  // Circle of confusion, as a multiple of the in-focus particle size
+  float getCircleOfConfusion(float viewDepth) {
+    return aperture * abs(viewDepth - focusDistance) / max(viewDepth, 1e-3);
+  }
+`
+
+export const depthParsFragment = /* glsl */ `
+  #include <fog_pars_fragment>
+
+  uniform bool depthFade;
+  uniform vec2 depthFadeRange;
+
+  varying float vBlur;
+  varying float vViewDepth;
+
+  // Spreads the sprite into a soft disc, dimmer the larger it grows
+  vec4 applyBokeh(vec4 sprite) {
+    if (vBlur <= 0.0) return sprite;
+    float blur = min(vBlur, 1.0);
+    float dist = length(gl_PointCoord - vec2(0.5));
+    float disc = 1.0 - smoothstep(0.5 - 0.3 * blur, 0.5, dist);
+    sprite.a = mix(sprite.a, disc * 0.6, blur) / (1.0 + vBlur);
+    return sprite;
+  }
+
+  // How far the particle has faded into the distance, 0 near and 1 gone.
+  // Scene fog fades particles out rather than tinting them, so additive
+  // particles don't glow in the fog color.
+  float getDepthFade() {
+    float viewDepth = vViewDepth;
+    float fade = depthFade
+      ? smoothstep(depthFadeRange.x, depthFadeRange.y, viewDepth)
+      : 0.0;
+    #ifdef USE_FOG
+      #ifdef FOG_EXP2
+        fade = max(fade, 1.0 - exp(-fogDensity * fogDensity * viewDepth * viewDepth));
+      #else
+        fade = max(fade, smoothstep(fogNear, fogFar, viewDepth));
+      #endif
+    #endif
+    return fade;
+  }
+`
@@ -0,0 +1,104 @@
+import * as THREE from 'three'
+import { valueNoise } from './particleNoise'
+
+// Ambient motion along a time-varying curl-noise field. The field is sampled
+// in normalized bounding-box space, so frequency and amplitude read the same
+// on any model scale, and the offset is clamped to keep particles tethered.
+// Needs valueNoisePars from particleNoise.ts ahead of it.
+export const driftParsVertex = /* glsl */ `
+  uniform bool drift;
+  uniform float driftAmplitude;
+  uniform float driftFrequency;
+  uniform float driftTime;
+  uniform vec3 boundsMin;
+  uniform vec3 boundsMax;
+
+  // Three decorrelated noise channels make up the vector potential
+  vec3 driftPotential(vec3 p) {
+    return vec3(
+      valueNoise(p),
+      valueNoise(p + vec3(31.416, -47.853, 12.793)),
+      valueNoise(p + vec3(-233.145, -113.408, -185.31))
+    ) * 2.0 - 1.0;
+  }
+
+  // Divergence-free, so particles swirl without bunching up
+  vec3 curlNoise(vec3 p) {
+    const float e = 0.1;
+    vec3 dx = driftPotential(p + vec3(e, 0, 0)) - driftPotential(p - vec3(e, 0, 0));
+    vec3 dy = driftPotential(p + vec3(0, e, 0)) - driftPotential(p - vec3(0, e, 0));
+    vec3 dz = driftPotential(p + vec3(0, 0, e)) - driftPotential(p - vec3(0, 0, e));
+    return vec3(dy.z - dz.y, dz.x - dx.z, dx.y - dy.x) / (2.0 * e);
+  }
+
+  vec3 getDriftOffset(vec3 restPosition) {
+    if (!drift) return vec3(0.0);
+
+    vec3 size = boundsMax - boundsMin;
+    vec3 normalizedPos = (restPosition - boundsMin) / max(size, vec3(1e-5));
+    // Smoke rises slowly through the field as it evolves
+    vec3 p = normalizedPos * driftFrequency + vec3(0.0, -driftTime, driftTime * 0.37);
+    vec3 offset = curlNoise(p) * 0.25;
+    float len = length(offset);
+    if (len > 1.0) offset /= len;
+    return offset * driftAmplitude * length(size);
+  }
+`
+
+// The drift uniforms, for getDriftOffset on the CPU
+export interface DriftField {
+  amplitude: number
+  frequency: number
+  time: number
+  bounds: { min: THREE.Vector3; max: THREE.Vector3 }
+}
+
+const _minSize = new THREE.Vector3(1e-5, 1e-5, 1e-5)
+const _size = new THREE.Vector3()
+const _scale = new THREE.Vector3()
+const _p = new THREE.Vector3()
+const _dx = new THREE.Vector3()
+const _dy = new THREE.Vector3()
+const _dz = new THREE.Vector3()
+const _back = new THREE.Vector3()
+
+function driftPotential(
+  x: number,
+  y: number,
+  z: number,
+  target: THREE.Vector3,
+) {
+  return target
+    .set(
+      valueNoise(x, y, z),
+      valueNoise(x + 31.416, y - 47.853, z + 12.793),
+      valueNoise(x - 233.145, y - 113.408, z - 185.31),
+    )
+    .multiplyScalar(2)
+    .subScalar(1)
+}
+
+// Same offset as the shader's getDriftOffset, written to target
+export function getDriftOffset(
+  field: DriftField,
+  restPosition: THREE.Vector3,
+  target: THREE.Vector3,
+) {
+  const e = 0.1
+  _size.subVectors(field.bounds.max, field.bounds.min)
+  _p.subVectors(restPosition, field.bounds.min)
+    .divide(_scale.copy(_size).max(_minSize))
+    .multiplyScalar(field.frequency)
+    .add(_back.set(0, -field.time, field.time * 0.37))
+  const { x, y, z } = _p
+
+  driftPotential(x + e, y, z, _dx).sub(driftPotential(x - e, y, z, _back))
+  driftPotential(x, y + e, z, _dy).sub(driftPotential(x, y - e, z, _back))
+  driftPotential(x, y, z + e, _dz).sub(driftPotential(x, y, z - e, _back))
+  target
+    .set(_dy.z - _dz.y, _dz.x - _dx.z, _dx.y - _dy.x)
+    .multiplyScalar(0.25 / (2 * e))
+  const length = target.length()
+  if (length > 1) target.divideScalar(length)
+  return target.multiplyScalar(field.amplitude * _size.length())
+}
@@ -0,0 +1,306 @@
+import * as THREE from 'three'
+
+export const MAX_EFFECTORS = 8
+
+const MIN_RING_THICKNESS = 1e-3
+
+export type EffectorFalloff = 'constant' | 'linear' | 'quadratic' | 'smooth'
+
+type Vec3 = [number, number, number]
+
+interface EffectorBase {
+  // World-space position, or 'pointer' to follow the first active pointer
+  position?: Vec3 | 'pointer'
+  radius?: number
+  strength?: number
+  falloff?: EffectorFalloff
+}
+
+// Forces combined by the particle physics step. Each pushes particles towards
+// a target displacement, just like the built-in pointer dispersion.
+export type ParticleEffector =
+  | ({ type: 'attractor' } & EffectorBase)
+  | ({ type: 'repulsor' } & EffectorBase)
+  | ({ type: 'vortex'; axis?: Vec3 } & EffectorBase)
+  // radius 0 blows everywhere
+  | ({ type: 'wind'; direction: Vec3 } & EffectorBase)
+  // Expands from every click, radius is how far the ring travels
+  | ({
+      type: 'shockwave'
+      duration?: number
+      thickness?: number
+    } & EffectorBase)
+
+export interface Shockwave {
+  effector: Extract<ParticleEffector, { type: 'shockwave' }>
+  origin: THREE.Vector3
+  age: number
+}
+
+const EFFECTOR_TYPES = {
+  attractor: 0,
+  repulsor: 1,
+  vortex: 2,
+  wind: 3,
+  shockwave: 4,
+} satisfies Record<ParticleEffector['type'], number>
+
+const FALLOFFS: Record<EffectorFalloff, number> = {
+  constant: 0,
+  linear: 1,
+  quadratic: 2,
+  smooth: 3,
+}
+
+// Per effector: positions = xyz + radius, params = type, strength, falloff,
+// ring radius, vectors = axis or direction + ring thickness
+export interface PackedEffectors {
+  count: number
+  positions: Float32Array
+  params: Float32Array
+  vectors: Float32Array
+}
+
+export function createPackedEffectors(): PackedEffectors {
+  return {
+    count: 0,
+    positions: new Float32Array(MAX_EFFECTORS * 4),
+    params: new Float32Array(MAX_EFFECTORS * 4),
+    vectors: new Float32Array(MAX_EFFECTORS * 4),
+  }
+}
+
+export const effectorPars = /* glsl */ `
+  #define MAX_EFFECTORS ${MAX_EFFECTORS}
+
+  uniform int effectorCount;
+  uniform vec4 effectorPositions[MAX_EFFECTORS];
+  uniform vec4 effectorParams[MAX_EFFECTORS];
+  uniform vec4 effectorVectors[MAX_EFFECTORS];
+
+  float effectorFalloff(float falloff, float x) {
+    x = clamp(x, 0.0, 1.0);
+    if (falloff < 0.5) return 1.0;
+    if (falloff < 1.5) return 1.0 - x;
+    if (falloff < 2.5) return (1.0 - x) * (1.0 - x);
+    return 1.0 - smoothstep(0.0, 1.0, x);
+  }
+
+  vec3 getEffectorTarget(vec3 worldPos) {
+    vec3 target = vec3(0.0);
+
+    for (int i = 0; i < MAX_EFFECTORS; i++) {
+      if (i >= effectorCount) break;
+
+      vec3 center = effectorPositions[i].xyz;
+      float radius = effectorPositions[i].w;
+      float kind = effectorParams[i].x;
+      float strength = effectorParams[i].y;
+      float falloff = effectorParams[i].z;
+      vec3 offset = worldPos - center;
+      float dist = length(offset);
+      vec3 direction = dist > 0.0 ? offset / dist : vec3(0.0);
+
+      if (kind > 3.5) {
+        float ring = effectorParams[i].w;
+        float band = 1.0 - abs(dist - ring) / effectorVectors[i].w;
+        if (band > 0.0) target += direction * strength * band;
+        continue;
+      }
+
+      if (kind > 2.5 && radius <= 0.0) {
+        target += effectorVectors[i].xyz * strength;
+        continue;
+      }
+      if (dist >= radius) continue;
+
+      float influence = effectorFalloff(falloff, dist / radius) * strength;
+      if (kind < 0.5) {
+        target -= direction * min(influence, dist);
+      } else if (kind < 1.5) {
+        target += direction * influence;
+      } else if (kind < 2.5) {
+        target += cross(effectorVectors[i].xyz, direction) * influence;
+      } else {
+        target += effectorVectors[i].xyz * influence;
+      }
+    }
+
+    return target;
+  }
+`
+
+const _position = new THREE.Vector3()
+const _vector = new THREE.Vector3()
+
+function getFalloff(falloff: number, x: number) {
+  x = Math.min(Math.max(x, 0), 1)
+  if (falloff < 0.5) return 1
+  if (falloff < 1.5) return 1 - x
+  if (falloff < 2.5) return (1 - x) * (1 - x)
+  return 1 - x * x * (3 - 2 * x)
+}
+
+// Resolves this frame's effectors, and live shockwaves, into uniform arrays
+export function packEffectors(
+  effectors: ParticleEffector[],
+  shockwaves: Shockwave[],
+  pointerPosition: THREE.Vector3 | null,
+  packed: PackedEffectors,
+) {
+  const { positions, params, vectors } = packed
+  let count = 0
+
+  const push = (
+    type: number,
+    radius: number,
+    strength: number,
+    falloff: number,
+    ring: number,
+    thickness: number,
+  ) => {
+    if (count >= MAX_EFFECTORS) return
+    const i = count * 4
+    positions[i] = _position.x
+    positions[i + 1] = _position.y
+    positions[i + 2] = _position.z
+    positions[i + 3] = radius
+    params[i] = type
+    params[i + 1] = strength
+    params[i + 2] = falloff
+    params[i + 3] = ring
+    vectors[i] = _vector.x
+    vectors[i + 1] = _vector.y
+    vectors[i + 2] = _vector.z
+    vectors[i + 3] = thickness
+    count++
+  }
+
+  for (const effector of effectors) {
+    if (effector.type === 'shockwave') continue
+
+    if (effector.position === 'pointer') {
+      if (!pointerPosition) continue
+      _position.copy(pointerPosition)
+    } else {
+      _position.set(...(effector.position ?? [0, 0, 0]))
+    }
+
+    if (effector.type === 'vortex') {
+      _vector.set(...(effector.axis ?? [0, 1, 0])).normalize()
+    } else if (effector.type === 'wind') {
+      _vector.set(...effector.direction).normalize()
+    } else {
+      _vector.set(0, 0, 0)
+    }
+
+    push(
+      EFFECTOR_TYPES[effector.type],
+      effector.radius ?? (effector.type === 'wind' ? 0 : 2),
+      effector.strength ?? 1,
+      FALLOFFS[effector.falloff ?? 'quadratic'],
+      0,
+      0,
+    )
+  }
+
+  _vector.set(0, 0, 0)
+  for (const shockwave of shockwaves) {
+    const { effector } = shockwave
+    const radius = effector.radius ?? 4
+    const progress = shockwave.age / (effector.duration ?? 1)
+
+    // The ring fades with the falloff curve as it travels outwards
+    _position.copy(shockwave.origin)
+    push(
+      EFFECTOR_TYPES.shockwave,
+      radius,
+      (effector.strength ?? 1) *
+        getFalloff(FALLOFFS[effector.falloff ?? 'linear'], progress),
+      0,
+      progress * radius,
+      // The band divides by it
+      Math.max(effector.thickness ?? 0.75, MIN_RING_THICKNESS),
+    )
+  }
+
+  packed.count = count
+  return packed
+}
+
+// Ages shockwaves and drops the ones that have finished expanding
+export function advanceShockwaves(shockwaves: Shockwave[], delta: number) {
+  for (let i = shockwaves.length - 1; i >= 0; i--) {
+    shockwaves[i].age += delta
+    if (shockwaves[i].age >= (shockwaves[i].effector.duration ?? 1)) {
+      shockwaves.splice(i, 1)
+    }
+  }
+}
+
+// CPU mirror of getEffectorTarget
+export function getEffectorTarget(
+  packed: PackedEffectors,
+  worldPos: THREE.Vector3,
+  target: THREE.Vector3,
+) {
+  target.set(0, 0, 0)
+
+  for (let e = 0; e < packed.count; e++) {
+    const i = e * 4
+    const radius = packed.positions[i + 3]
+    const type = packed.params[i]
+    const strength = packed.params[i + 1]
+    const ox = worldPos.x - packed.positions[i]
+    const oy = worldPos.y - packed.positions[i + 1]
+    const oz = worldPos.z - packed.positions[i + 2]
+    const dist = Math.sqrt(ox * ox + oy * oy + oz * oz)
+    const dx = dist > 0 ? ox / dist : 0
+    const dy = dist > 0 ? oy / dist : 0
+    const dz = dist > 0 ? oz / dist : 0
+    const vx = packed.vectors[i]
+    const vy = packed.vectors[i + 1]
+    const vz = packed.vectors[i + 2]
+
+    if (type === EFFECTOR_TYPES.shockwave) {
+      const band =
+        1 - Math.abs(dist - packed.params[i + 3]) / packed.vectors[i + 3]
+      if (band > 0) {
+        target.x += dx * strength * band
+        target.y += dy * strength * band
+        target.z += dz * strength * band
+      }
+      continue
+    }
+
+    if (type === EFFECTOR_TYPES.wind && radius <= 0) {
+      target.x += vx * strength
+      target.y += vy * strength
+      target.z += vz * strength
+      continue
+    }
+    if (dist >= radius) continue
+
+    const influence = getFalloff(packed.params[i + 2], dist / radius) * strength
+    if (type === EFFECTOR_TYPES.attractor) {
+      const pull = Math.min(influence, dist)
+      target.x -= dx * pull
+      target.y -= dy * pull
+      target.z -= dz * pull
+    } else if (type === EFFECTOR_TYPES.repulsor) {
+      target.x += dx * influence
+      target.y += dy * influence
+      target.z += dz * influence
+    } else if (type === EFFECTOR_TYPES.vortex) {
+      target.x += (vy * dz - vz * dy) * influence
+      target.y += (vz * dx - vx * dz) * influence
+      target.z += (vx * dy - vy * dx) * influence
+    } else {
+      target.x += vx * influence
+      target.y += vy * influence
+      target.z += vz * influence
+    }
+  }
+
+  return target
+}
@@ -0,0 +1,118 @@
+import * as THREE from 'three'
+
+// 'points' blends gradientColors by inverse distance, the other modes look up
+// gradientStops in a 1D ramp texture
+export type GradientMode = 'points' | 'linear' | 'radial' | 'noise'
+
+export interface GradientStop {
+  color: string
+  offset: number
+}
+
+export const GRADIENT_MODES: Record<GradientMode, number> = {
+  points: 0,
+  linear: 1,
+  radial: 2,
+  noise: 3,
+}
+
+const RAMP_SIZE = 256
+
+export const MAX_GRADIENT_COLORS = 8
+
+// The 'points' gradient as flat uniform arrays, white past `count`
+export interface GradientPoints {
+  count: number
+  colors: Float32Array
+  positions: Float32Array
+}
+
+export function createGradientPoints(
+  gradientColors: Array<{
+    color: string
+    position: [number, number, number]
+  }> | null,
+): GradientPoints {
+  const count = Math.min(gradientColors?.length ?? 0, MAX_GRADIENT_COLORS)
+  const colors = new Float32Array(MAX_GRADIENT_COLORS * 3).fill(1)
+  const positions = new Float32Array(MAX_GRADIENT_COLORS * 3)
+  const color = new THREE.Color()
+
+  for (let i = 0; i < count; i++) {
+    color.set(gradientColors![i].color).toArray(colors, i * 3)
+    positions.set(gradientColors![i].position, i * 3)
+  }
+  return { count, colors, positions }
+}
+
+// Needs valueNoisePars from particleNoise.ts ahead of it
+export const gradientRampPars = /* glsl */ `
+  uniform int gradientMode;
+  uniform sampler2D gradientRamp;
+  uniform vec3 gradientAxis;
+  uniform vec3 gradientCenter;
+  uniform float gradientRadius;
+  uniform float gradientNoiseScale;
+  uniform float gradientOffset;
+
+  // Ramp color at a position in normalized bounding-box space
+  vec3 getRampColor(vec3 normalizedPos) {
+    float t;
+    if (gradientMode == 1) {
+      t = dot(normalizedPos - 0.5, normalize(gradientAxis)) + 0.5 + gradientOffset;
+    } else if (gradientMode == 2) {
+      t = length(normalizedPos - gradientCenter) / gradientRadius + gradientOffset;
+    } else {
+      vec3 p = normalizedPos * gradientNoiseScale + vec3(0.0, 0.0, gradientOffset);
+      t = valueNoise(p) * 0.65 + valueNoise(p * 2.0) * 0.35;
+    }
+    // The ramp repeats mirrored, so sweeping offsets stay seamless
+    return texture2D(gradientRamp, vec2(t, 0.5)).rgb;
+  }
+`
+
+// Bakes any number of color stops into a 1D ramp texture
+export function createGradientRamp(stops: GradientStop[]) {
+  const sorted = [...stops].sort((a, b) => a.offset - b.offset)
+  const colors = sorted.map((stop) => new THREE.Color(stop.color))
+  const data = new Uint16Array(RAMP_SIZE * 4)
+  const color = new THREE.Color()
+
+  for (let i = 0; i < RAMP_SIZE; i++) {
+    const t = i / (RAMP_SIZE - 1)
+    let next = sorted.findIndex((stop) => stop.offset >= t)
+    if (next < 0) next = sorted.length - 1
+
+    if (sorted.length === 0) {
+      color.setRGB(1, 1, 1)
+    } else if (next === 0 || sorted[next].offset <= t) {
+      color.copy(colors[next])
+    } else {
+      const from = sorted[next - 1]
+      const to = sorted[next]
+      color.lerpColors(
+        colors[next - 1],
+        colors[next],
+        (t - from.offset) / (to.offset - from.offset),
+      )
+    }
+
+    data[i * 4] = THREE.DataUtils.toHalfFloat(color.r)
+    data[i * 4 + 1] = THREE.DataUtils.toHalfFloat(color.g)
+    data[i * 4 + 2] = THREE.DataUtils.toHalfFloat(color.b)
+    data[i * 4 + 3] = THREE.DataUtils.toHalfFloat(1)
+  }
+
+  const ramp = new THREE.DataTexture(
+    data,
+    RAMP_SIZE,
+    1,
+    THREE.RGBAFormat,
+    THREE.HalfFloatType,
+  )
+  ramp.wrapS = THREE.MirroredRepeatWrapping
+  ramp.magFilter = THREE.LinearFilter
+  ramp.minFilter = THREE.LinearFilter
+  ramp.needsUpdate = true
+  return ramp
+}
@@ -0,0 +1,133 @@
+import * as THREE from 'three'
+import { resolveEasing, type Easing } from './easing'
+import { getDriftOffset, type DriftField } from './particleDrift'
+import { getSkinnedPosition, type ParticleSkin } from './particleSkinning'
+
+// For each particle of the new cloud, the index of the old particle it
+// morphs out of
+export type ParticleMapping =
+  | 'scaled'
+  | 'modulo'
+  | ((toCount: number, fromCount: number) => ArrayLike<number>)
+
+export interface ParticleTransition {
+  duration?: number
+  easing?: Easing
+  mapping?: ParticleMapping
+}
+
+// What moves a cloud's particles off their skinned positions when it's
+// captured
+export interface ParticleCaptureState {
+  // From readSimulatedDisplacement, when the GPU runs the physics. Otherwise
+  // the currentDisplacement attribute holds it
+  simulatedDisplacement?: Float32Array | null
+  drift?: DriftField | null
+  // Below 1 the cloud was itself still morphing in
+  morphProgress?: number
+}
+
+export interface ParticleMorph {
+  elapsed: number
+  duration: number
+  easing: (t: number) => number
+}
+
+export function mapParticleIndices(
+  mapping: ParticleMapping,
+  toCount: number,
+  fromCount: number,
+): ArrayLike<number> {
+  if (typeof mapping === 'function') return mapping(toCount, fromCount)
+
+  const indices = new Uint32Array(toCount)
+  for (let i = 0; i < toCount; i++) {
+    // 'scaled' keeps relative order when counts differ, 'modulo' wraps around
+    indices[i] =
+      mapping === 'modulo'
+        ? i % fromCount
+        : Math.min(fromCount - 1, Math.floor((i * fromCount) / toCount))
+  }
+  return indices
+}
+
+// Start positions of the new cloud, picked from the old cloud's positions
+export function createMorphSource(
+  previousPositions: Float32Array,
+  toCount: number,
+  mapping: ParticleMapping,
+) {
+  const fromCount = previousPositions.length / 3
+  const source = new Float32Array(toCount * 3)
+  if (fromCount === 0) return source
+
+  const indices = mapParticleIndices(mapping, toCount, fromCount)
+  for (let i = 0; i < toCount; i++) {
+    const from = Math.min(fromCount - 1, Math.max(0, indices[i])) * 3
+    source[i * 3] = previousPositions[from]
+    source[i * 3 + 1] = previousPositions[from + 1]
+    source[i * 3 + 2] = previousPositions[from + 2]
+  }
+  return source
+}
+
+export function createParticleMorph(
+  transition: ParticleTransition,
+): ParticleMorph {
+  return {
+    elapsed: 0,
+    duration: Math.max(transition.duration ?? 0.8, 0.0001),
+    easing: resolveEasing(transition.easing ?? 'easeInOutCubic'),
+  }
+}
+
+// Advances the morph, returning eased progress from 0 to 1
+export function advanceParticleMorph(morph: ParticleMorph, delta: number) {
+  morph.elapsed += delta
+  return morph.easing(Math.min(morph.elapsed / morph.duration, 1))
+}
+
+// Where each particle of a cloud currently sits, in the cloud's local space
+export function captureParticlePositions(
+  geometry: THREE.BufferGeometry,
+  objectMatrix: THREE.Matrix4,
+  state: ParticleCaptureState = {},
+) {
+  const { simulatedDisplacement, drift, morphProgress = 1 } = state
+  const skin: ParticleSkin | null = geometry.userData.skin
+  const originalPosAttr = geometry.getAttribute(
+    'originalPosition',
+  ) as THREE.BufferAttribute
+  const displacementAttr = geometry.getAttribute(
+    'currentDisplacement',
+  ) as THREE.BufferAttribute
+  const morphFromAttr = geometry.getAttribute('morphFromPosition') as
+    THREE.BufferAttribute | undefined
+  const skinSpaceMatrix = objectMatrix.clone().invert()
+  const position = new THREE.Vector3()
+  const displacement = new THREE.Vector3()
+  const driftOffset = new THREE.Vector3()
+  const morphFrom = new THREE.Vector3()
+  const positions = new Float32Array(originalPosAttr.count * 3)
+
+  for (let i = 0; i < originalPosAttr.count; i++) {
+    if (skin) {
+      getSkinnedPosition(skin, geometry, i, skinSpaceMatrix, position)
+    } else {
+      position.fromBufferAttribute(originalPosAttr, i)
+    }
+    if (drift) position.add(getDriftOffset(drift, position, driftOffset))
+    if (simulatedDisplacement) {
+      displacement.fromArray(simulatedDisplacement, i * 4)
+    } else {
+      displacement.fromBufferAttribute(displacementAttr, i)
+    }
+    position.add(displacement)
+    if (morphFromAttr && morphProgress < 1) {
+      morphFrom.fromBufferAttribute(morphFromAttr, i)
+      position.lerpVectors(morphFrom, position, morphProgress)
+    }
+    position.toArray(positions, i * 3)
+  }
+  return positions
+}
@@ -0,0 +1,68 @@
+import * as THREE from 'three'
+
+// Smooth 3D value noise in 0-1, shared by the noise gradient and drift.
+// Include it once per shader, ahead of the chunks that call it
+export const valueNoisePars = /* glsl */ `
+  float noiseHash(vec3 p) {
+    p = fract(p * 0.3183099 + 0.1);
+    p *= 17.0;
+    return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
+  }
+
+  float valueNoise(vec3 p) {
+    vec3 i = floor(p);
+    vec3 f = fract(p);
+    f = f * f * (3.0 - 2.0 * f);
+    return mix(
+      mix(
+        mix(noiseHash(i), noiseHash(i + vec3(1, 0, 0)), f.x),
+        mix(noiseHash(i + vec3(0, 1, 0)), noiseHash(i + vec3(1, 1, 0)), f.x),
+        f.y
+      ),
+      mix(
+        mix(noiseHash(i + vec3(0, 0, 1)), noiseHash(i + vec3(1, 0, 1)), f.x),
+        mix(noiseHash(i + vec3(0, 1, 1)), noiseHash(i + vec3(1, 1, 1)), f.x),
+        f.y
+      ),
+      f.z
+    );
+  }
+`
+
+// CPU copies of the GLSL above, for reading where the shader put a particle.
+// Rounded to 32-bit floats like the GPU, or the hash comes out different
+const f32 = Math.fround
+const fract = (x: number) => f32(x - Math.floor(x))
+
+function noiseHash(x: number, y: number, z: number) {
+  x = f32(fract(f32(f32(x * 0.3183099) + 0.1)) * 17)
+  y = f32(fract(f32(f32(y * 0.3183099) + 0.1)) * 17)
+  z = f32(fract(f32(f32(z * 0.3183099) + 0.1)) * 17)
+  return fract(f32(f32(f32(x * y) * z) * f32(f32(x + y) + z)))
+}
+
+export function valueNoise(x: number, y: number, z: number) {
+  const ix = Math.floor(x)
+  const iy = Math.floor(y)
+  const iz = Math.floor(z)
+  const smooth = (t: number) => t * t * (3 - 2 * t)
+  const fx = smooth(x - ix)
+  const fy = smooth(y - iy)
+  const fz = smooth(z - iz)
+  const { lerp } = THREE.MathUtils
+  const corner = (dx: number, dy: number, dz: number) =>
+    noiseHash(ix + dx, iy + dy, iz + dz)
+  return lerp(
+    lerp(
+      lerp(corner(0, 0, 0), corner(1, 0, 0), fx),
+      lerp(corner(0, 1, 0), corner(1, 1, 0), fx),
+      fy,
+    ),
+    lerp(
+      lerp(corner(0, 0, 1), corner(1, 0, 1), fx),
+      lerp(corner(0, 1, 1), corner(1, 1, 1), fx),
+      fy,
+    ),
+    fz,
+  )
+}
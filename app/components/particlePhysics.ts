@@ -0,0 +1,248 @@
+import * as THREE from 'three'
+import {
+  GPUComputationRenderer,
+  type Variable,
+} from 'three/examples/jsm/misc/GPUComputationRenderer.js'
+import { boneTexturePars, type ParticleSkin } from './particleSkinning'
+import { MAX_POINTERS, pointerUniformsPars } from './particlePointers'
+import {
+  MAX_EFFECTORS,
+  effectorPars,
+  type PackedEffectors,
+} from './particleEffectors'
+
+// Displacement and velocity of every particle, integrated on the GPU in
+// ping-pong float render targets
+export interface ParticleSimulation {
+  renderer: THREE.WebGLRenderer
+  compute: GPUComputationRenderer
+  displacement: Variable
+  velocity: Variable
+  uniforms: Record<string, THREE.IUniform>
+}
+
+export interface ParticleSimulationStep {
+  objectMatrix: THREE.Matrix4
+  skinSpaceMatrix: THREE.Matrix4
+  pointerPositions: THREE.Vector3[]
+  pointerCount: number
+  effectors: PackedEffectors
+  disperseRadius: number
+  disperseStrength: number
+  returnSpeed: number
+  delta: number
+  time: number
+}
+
+// Same spring integration as the CPU path in Particles: both variables read
+// last frame's state, so each recomputes this frame's velocity
+const simulationPars = /* glsl */ `
+  ${boneTexturePars}
+  ${pointerUniformsPars}
+  ${effectorPars}
+
+  uniform sampler2D restPositionTexture;
+  uniform sampler2D skinIndexTexture;
+  uniform sampler2D skinWeightTexture;
+  uniform mat4 objectMatrix;
+  uniform float disperseRadius;
+  uniform float disperseStrength;
+  uniform float returnSpeed;
+  uniform float delta;
+  uniform float time;
+
+  vec3 computeVelocity(vec2 uv) {
+    vec3 restPosition = skinPosition(
+      texture2D(restPositionTexture, uv).xyz,
+      texture2D(skinIndexTexture, uv),
+      texture2D(skinWeightTexture, uv)
+    );
+    vec3 worldPos = (objectMatrix * vec4(restPosition, 1.0)).xyz;
+
+    vec3 target = getEffectorTarget(worldPos);
+    for (int i = 0; i < MAX_POINTERS; i++) {
+      if (i >= pointerCount) break;
+
+      float dist = distance(worldPos, pointerPositions[i]);
+      if (dist >= disperseRadius) continue;
+
+      vec3 direction = normalize(worldPos - pointerPositions[i]);
+      float influence = pow(1.0 - dist / disperseRadius, 2.0);
+      float noise = sin(restPosition.x * 0.1 + time) * 0.3;
+      target += direction * influence * disperseStrength * (1.0 + noise);
+    }
+
+    vec3 displacement = texture2D(textureDisplacement, uv).xyz;
+    vec3 velocity = texture2D(textureVelocity, uv).xyz;
+    velocity += (target - displacement) * returnSpeed * delta;
+    return velocity * 0.8;
+  }
+`
+
+const velocityShader = /* glsl */ `
+  ${simulationPars}
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    gl_FragColor = vec4(computeVelocity(uv), 1.0);
+  }
+`
+
+const displacementShader = /* glsl */ `
+  ${simulationPars}
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 displacement = texture2D(textureDisplacement, uv).xyz;
+    gl_FragColor = vec4(displacement + computeVelocity(uv) * delta * 60.0, 1.0);
+  }
+`
+
+// Side of the square simulation texture holding one texel per particle
+export function getSimulationSize(particleCount: number) {
+  return Math.max(1, Math.ceil(Math.sqrt(particleCount)))
+}
+
+function fillTexture(
+  texture: THREE.DataTexture,
+  attribute: THREE.BufferAttribute,
+) {
+  const data = texture.image.data as Float32Array
+  for (let i = 0; i < attribute.count; i++) {
+    for (let j = 0; j < attribute.itemSize; j++) {
+      data[i * 4 + j] = attribute.getComponent(i, j)
+    }
+  }
+  return texture
+}
+
+export function createParticleSimulation(
+  gl: THREE.WebGLRenderer,
+  geometry: THREE.BufferGeometry,
+  skin: ParticleSkin | null,
+): ParticleSimulation | null {
+  const size = getSimulationSize(geometry.getAttribute('position').count)
+  const compute = new GPUComputationRenderer(size, size, gl)
+
+  const displacement = compute.addVariable(
+    'textureDisplacement',
+    displacementShader,
+    compute.createTexture(),
+  )
+  const velocity = compute.addVariable(
+    'textureVelocity',
+    velocityShader,
+    compute.createTexture(),
+  )
+  compute.setVariableDependencies(displacement, [displacement, velocity])
+  compute.setVariableDependencies(velocity, [displacement, velocity])
+
+  const uniforms: Record<string, THREE.IUniform> = {
+    useSkinning: { value: skin !== null },
+    boneTexture: { value: skin?.boneTexture ?? null },
+    skinSpaceMatrix: { value: new THREE.Matrix4() },
+    restPositionTexture: {
+      value: fillTexture(
+        compute.createTexture(),
+        geometry.getAttribute('originalPosition') as THREE.BufferAttribute,
+      ),
+    },
+    skinIndexTexture: {
+      value: fillTexture(
+        compute.createTexture(),
+        geometry.getAttribute('skinIndex') as THREE.BufferAttribute,
+      ),
+    },
+    skinWeightTexture: {
+      value: fillTexture(
+        compute.createTexture(),
+        geometry.getAttribute('skinWeight') as THREE.BufferAttribute,
+      ),
+    },
+    objectMatrix: { value: new THREE.Matrix4() },
+    pointerPositions: {
+      value: Array.from({ length: MAX_POINTERS }, () => new THREE.Vector3()),
+    },
+    pointerCount: { value: 0 },
+    effectorCount: { value: 0 },
+    effectorPositions: { value: new Float32Array(MAX_EFFECTORS * 4) },
+    effectorParams: { value: new Float32Array(MAX_EFFECTORS * 4) },
+    effectorVectors: { value: new Float32Array(MAX_EFFECTORS * 4) },
+    disperseRadius: { value: 0 },
+    disperseStrength: { value: 0 },
+    returnSpeed: { value: 0 },
+    delta: { value: 0 },
+    time: { value: 0 },
+  }
+  Object.assign(displacement.material.uniforms, uniforms)
+  Object.assign(velocity.material.uniforms, uniforms)
+
+  const error = compute.init()
+  if (error !== null) {
+    console.warn('Particles: GPU physics unavailable,', error)
+    disposeParticleSimulation({
+      renderer: gl,
+      compute,
+      displacement,
+      velocity,
+      uniforms,
+    })
+    return null
+  }
+
+  return { renderer: gl, compute, displacement, velocity, uniforms }
+}
+
+export function stepParticleSimulation(
+  simulation: ParticleSimulation,
+  step: ParticleSimulationStep,
+) {
+  const { uniforms } = simulation
+  uniforms.objectMatrix.value.copy(step.objectMatrix)
+  uniforms.skinSpaceMatrix.value.copy(step.skinSpaceMatrix)
+  for (let i = 0; i < step.pointerCount; i++) {
+    uniforms.pointerPositions.value[i].copy(step.pointerPositions[i])
+  }
+  uniforms.pointerCount.value = step.pointerCount
+  uniforms.effectorCount.value = step.effectors.count
+  uniforms.effectorPositions.value.set(step.effectors.positions)
+  uniforms.effectorParams.value.set(step.effectors.params)
+  uniforms.effectorVectors.value.set(step.effectors.vectors)
+  uniforms.disperseRadius.value = step.disperseRadius
+  uniforms.disperseStrength.value = step.disperseStrength
+  uniforms.returnSpeed.value = step.returnSpeed
+  uniforms.delta.value = step.delta
+  uniforms.time.value = step.time
+
+  simulation.compute.compute()
+}
+
+export function getSimulatedDisplacement(simulation: ParticleSimulation) {
+  return simulation.compute.getCurrentRenderTarget(simulation.displacement)
+    .texture
+}
+
+// Copies the displacements back to the CPU, four floats per particle in
+// particle order. It waits on the GPU, so it's for one-off reads
+export function readSimulatedDisplacement(simulation: ParticleSimulation) {
+  const target = simulation.compute.getCurrentRenderTarget(
+    simulation.displacement,
+  )
+  const data = new Float32Array(target.width * target.height * 4)
+  simulation.renderer.readRenderTargetPixels(
+    target,
+    0,
+    0,
+    target.width,
+    target.height,
+    data,
+  )
+  return data
+}
+
+export function disposeParticleSimulation(simulation: ParticleSimulation) {
+  simulation.uniforms.restPositionTexture.value.dispose()
+  simulation.uniforms.skinIndexTexture.value.dispose()
+  simulation.uniforms.skinWeightTexture.value.dispose()
+  simulation.compute.dispose()
+}
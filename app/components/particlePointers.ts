@@ -0,0 +1,67 @@
+import * as THREE from 'three'
+
+export const MAX_POINTERS = 4
+
+// How far along the pointer ray the disturbance point sits: inside the
+// cloud's bounds, or where the ray crosses a plane
+export type InteractionDepth = 'bounds' | 'plane'
+
+// World-space plane as [normal x, normal y, normal z, constant]
+export type InteractionPlane = [number, number, number, number]
+
+export interface ActivePointer {
+  ndc: THREE.Vector2
+  releaseAt: number | null
+}
+
+// Released touches linger briefly so a tap scatters like a hover
+export const TAP_HOLD_TIME = 350
+
+export const pointerUniformsPars = /* glsl */ `
+  #define MAX_POINTERS ${MAX_POINTERS}
+
+  uniform vec3 pointerPositions[MAX_POINTERS];
+  uniform int pointerCount;
+`
+
+const _raycaster = new THREE.Raycaster()
+const _plane = new THREE.Plane()
+const _center = new THREE.Vector3()
+const _entry = new THREE.Vector3()
+const _exit = new THREE.Vector3()
+const _reverseRay = new THREE.Ray()
+
+export function projectPointer(
+  ndc: THREE.Vector2,
+  camera: THREE.Camera,
+  worldBounds: THREE.Box3,
+  depth: InteractionDepth,
+  plane: InteractionPlane | null,
+  target: THREE.Vector3,
+) {
+  _raycaster.setFromCamera(ndc, camera)
+  const ray = _raycaster.ray
+
+  // Halfway between where the ray enters and leaves the cloud's bounds
+  if (depth === 'bounds' && ray.intersectBox(worldBounds, _entry)) {
+    _reverseRay.origin.copy(ray.direction).multiplyScalar(1e4).add(ray.origin)
+    _reverseRay.direction.copy(ray.direction).negate()
+    if (_reverseRay.intersectBox(worldBounds, _exit)) {
+      return target.lerpVectors(_entry, _exit, 0.5)
+    }
+    return target.copy(_entry)
+  }
+
+  if (plane) {
+    _plane.normal.set(plane[0], plane[1], plane[2]).normalize()
+    _plane.constant = plane[3]
+  } else {
+    // Facing the camera through the middle of the cloud
+    worldBounds.getCenter(_center)
+    camera.getWorldDirection(_plane.normal).negate()
+    _plane.setFromNormalAndCoplanarPoint(_plane.normal, _center)
+  }
+
+  if (!ray.intersectPlane(_plane, target)) target.set(9999, 9999, 9999)
+  return target
+}
@@ -0,0 +1,277 @@
+import * as THREE from 'three'
+
+// Bind-pose particle positions plus the bone influences that skin them.
+// Bone indices are offset into one texture shared by all skeletons.
+export interface ParticleSamples {
+  positions: number[]
+  skinIndices: number[]
+  skinWeights: number[]
+  skeletons: THREE.Skeleton[]
+}
+
+interface SourceMesh {
+  geometry: THREE.BufferGeometry
+  skeleton: THREE.Skeleton | null
+  boneOffset: number
+  // Point clouds have no triangles, their points are sampled directly
+  isPoints: boolean
+}
+
+// Deterministic PRNG (mulberry32) so the same seed gives the same cloud
+export function createRandom(seed: number) {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function collectSourceMeshes(object: THREE.Object3D) {
+  const meshes: SourceMesh[] = []
+  const skeletons: THREE.Skeleton[] = []
+  const boneOffsets = new Map<THREE.Skeleton, number>()
+  let boneCount = 0
+
+  object.traverse((child) => {
+    const isPoints = child instanceof THREE.Points
+    if (!(child instanceof THREE.Mesh) && !isPoints) return
+    if (!child.geometry) return
+
+    const geometry: THREE.BufferGeometry = child.geometry
+    if (!geometry.attributes.position) return
+
+    const skeleton =
+      child instanceof THREE.SkinnedMesh &&
+      geometry.attributes.skinIndex &&
+      geometry.attributes.skinWeight
+        ? child.skeleton
+        : null
+
+    if (skeleton && !boneOffsets.has(skeleton)) {
+      boneOffsets.set(skeleton, boneCount)
+      skeletons.push(skeleton)
+      boneCount += skeleton.bones.length
+    }
+
+    meshes.push({
+      geometry,
+      skeleton,
+      boneOffset: skeleton ? boneOffsets.get(skeleton)! : 0,
+      isPoints,
+    })
+  })
+
+  return { meshes, skeletons }
+}
+
+// Bone influence of one source vertex, or -1 when it doesn't count
+function getBoneIndex(mesh: SourceMesh, vertexIdx: number, slot: number) {
+  if (!mesh.skeleton) return -1
+
+  const boneIndex = Math.floor(
+    mesh.geometry.attributes.skinIndex.getComponent(vertexIdx, slot),
+  )
+  const weight = mesh.geometry.attributes.skinWeight.getComponent(
+    vertexIdx,
+    slot,
+  )
+  return weight > 0 && boneIndex < mesh.skeleton.bones.length
+    ? mesh.boneOffset + boneIndex
+    : -1
+}
+
+export function sampleVertices(
+  object: THREE.Object3D,
+  sampleRate: number,
+): ParticleSamples {
+  const { meshes, skeletons } = collectSourceMeshes(object)
+  const positions: number[] = []
+  const skinIndices: number[] = []
+  const skinWeights: number[] = []
+
+  for (const mesh of meshes) {
+    const posArray = mesh.geometry.attributes.position.array
+
+    for (let i = 0; i < posArray.length; i += 3 * sampleRate) {
+      positions.push(posArray[i], posArray[i + 1], posArray[i + 2])
+
+      const vertexIdx = i / 3
+      for (let j = 0; j < 4; j++) {
+        const boneIndex = getBoneIndex(mesh, vertexIdx, j)
+        skinIndices.push(boneIndex >= 0 ? boneIndex : 0)
+        skinWeights.push(
+          boneIndex >= 0
+            ? mesh.geometry.attributes.skinWeight.getComponent(vertexIdx, j)
+            : 0,
+        )
+      }
+    }
+  }
+
+  return { positions, skinIndices, skinWeights, skeletons }
+}
+
+// Distributes particleCount particles over the mesh surface, picking each
+// triangle with probability proportional to its area
+export function sampleSurface(
+  object: THREE.Object3D,
+  particleCount: number,
+  seed: number,
+): ParticleSamples {
+  const { meshes, skeletons } = collectSourceMeshes(object)
+  const positions: number[] = []
+  const skinIndices: number[] = []
+  const skinWeights: number[] = []
+
+  const triangles: Array<{
+    mesh: SourceMesh
+    a: number
+    b: number
+    c: number
+  }> = []
+  const cumulativeAreas: number[] = []
+  const triangle = new THREE.Triangle()
+  let totalArea = 0
+
+  for (const mesh of meshes) {
+    if (mesh.isPoints) continue
+
+    const position = mesh.geometry.attributes.position
+    const index = mesh.geometry.index
+    const vertexCount = index ? index.count : position.count
+
+    for (let t = 0; t + 2 < vertexCount; t += 3) {
+      const a = index ? index.getX(t) : t
+      const b = index ? index.getX(t + 1) : t + 1
+      const c = index ? index.getX(t + 2) : t + 2
+
+      triangle.setFromAttributeAndIndices(position, a, b, c)
+      const area = triangle.getArea()
+      if (area <= 0) continue
+
+      totalArea += area
+      triangles.push({ mesh, a, b, c })
+      cumulativeAreas.push(totalArea)
+    }
+  }
+
+  const random = createRandom(seed)
+
+  // Without any surface, pick particleCount of the point clouds' points
+  if (totalArea === 0) {
+    const clouds = meshes.filter((mesh) => mesh.isPoints)
+    const totalPoints = clouds.reduce(
+      (total, mesh) => total + mesh.geometry.attributes.position.count,
+      0,
+    )
+
+    for (let p = 0; totalPoints > 0 && p < particleCount; p++) {
+      let index = Math.floor(random() * totalPoints)
+      let cloud = 0
+      while (index >= clouds[cloud].geometry.attributes.position.count) {
+        index -= clouds[cloud].geometry.attributes.position.count
+        cloud++
+      }
+
+      const position = clouds[cloud].geometry.attributes.position
+      positions.push(
+        position.getX(index),
+        position.getY(index),
+        position.getZ(index),
+      )
+      skinIndices.push(0, 0, 0, 0)
+      skinWeights.push(0, 0, 0, 0)
+    }
+
+    return { positions, skinIndices, skinWeights, skeletons }
+  }
+  const point = new THREE.Vector3()
+  const vertex = new THREE.Vector3()
+  const barycentric = [0, 0, 0]
+  const bones: number[] = []
+  const weights: number[] = []
+
+  for (let p = 0; p < particleCount; p++) {
+    // Binary search the triangle whose cumulative area covers the sample
+    const target = random() * totalArea
+    let low = 0
+    let high = cumulativeAreas.length - 1
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (cumulativeAreas[mid] < target) low = mid + 1
+      else high = mid
+    }
+    const { mesh, a, b, c } = triangles[low]
+
+    // Uniform point inside the triangle
+    const r1 = Math.sqrt(random())
+    const r2 = random()
+    barycentric[0] = 1 - r1
+    barycentric[1] = r1 * (1 - r2)
+    barycentric[2] = r1 * r2
+
+    const position = mesh.geometry.attributes.position
+    point.set(0, 0, 0)
+    point.addScaledVector(
+      vertex.fromBufferAttribute(position, a),
+      barycentric[0],
+    )
+    point.addScaledVector(
+      vertex.fromBufferAttribute(position, b),
+      barycentric[1],
+    )
+    point.addScaledVector(
+      vertex.fromBufferAttribute(position, c),
+      barycentric[2],
+    )
+    positions.push(point.x, point.y, point.z)
+
+    // Blend the three vertices' bone influences, keeping the strongest four
+    bones.length = 0
+    weights.length = 0
+    const corners = [a, b, c]
+    for (let k = 0; k < 3; k++) {
+      for (let j = 0; j < 4; j++) {
+        const boneIndex = getBoneIndex(mesh, corners[k], j)
+        if (boneIndex < 0) continue
+
+        const weight =
+          mesh.geometry.attributes.skinWeight.getComponent(corners[k], j) *
+          barycentric[k]
+        const existing = bones.indexOf(boneIndex)
+        if (existing >= 0) {
+          weights[existing] += weight
+        } else {
+          bones.push(boneIndex)
+          weights.push(weight)
+        }
+      }
+    }
+
+    let totalWeight = 0
+    const start = skinIndices.length
+    for (let j = 0; j < 4; j++) {
+      let strongest = -1
+      for (let k = 0; k < weights.length; k++) {
+        const stronger = strongest < 0 || weights[k] > weights[strongest]
+        if (weights[k] > 0 && stronger) strongest = k
+      }
+
+      skinIndices.push(strongest >= 0 ? bones[strongest] : 0)
+      skinWeights.push(strongest >= 0 ? weights[strongest] : 0)
+      if (strongest >= 0) {
+        totalWeight += weights[strongest]
+        weights[strongest] = 0
+      }
+    }
+
+    if (totalWeight > 0) {
+      for (let j = start; j < start + 4; j++) skinWeights[j] /= totalWeight
+    }
+  }
+
+  return { positions, skinIndices, skinWeights, skeletons }
+}
@@ -0,0 +1,147 @@
+import * as THREE from 'three'
+
+// Bone matrices of every skeleton feeding a particle cloud, packed into one
+// float texture the same way three's SkinnedMesh stores its bones.
+export interface ParticleSkin {
+  skeletons: THREE.Skeleton[]
+  boneOffsets: number[]
+  boneMatrices: Float32Array
+  boneTexture: THREE.DataTexture
+}
+
+// Bone lookup shared by the particle vertex shader and the physics simulation
+export const boneTexturePars = /* glsl */ `
+  uniform bool useSkinning;
+  uniform sampler2D boneTexture;
+  uniform mat4 skinSpaceMatrix;
+
+  mat4 getBoneMatrix(const in float i) {
+    int size = textureSize(boneTexture, 0).x;
+    int j = int(i) * 4;
+    int x = j % size;
+    int y = j / size;
+    vec4 v1 = texelFetch(boneTexture, ivec2(x, y), 0);
+    vec4 v2 = texelFetch(boneTexture, ivec2(x + 1, y), 0);
+    vec4 v3 = texelFetch(boneTexture, ivec2(x + 2, y), 0);
+    vec4 v4 = texelFetch(boneTexture, ivec2(x + 3, y), 0);
+    return mat4(v1, v2, v3, v4);
+  }
+
+  // Bind-pose position -> skinned position in the particle cloud's space
+  vec3 skinPosition(vec3 position, vec4 boneIndices, vec4 boneWeights) {
+    if (!useSkinning || dot(boneWeights, vec4(1.0)) == 0.0) return position;
+
+    vec4 bindVertex = vec4(position, 1.0);
+    vec4 skinned = vec4(0.0);
+    skinned += getBoneMatrix(boneIndices.x) * bindVertex * boneWeights.x;
+    skinned += getBoneMatrix(boneIndices.y) * bindVertex * boneWeights.y;
+    skinned += getBoneMatrix(boneIndices.z) * bindVertex * boneWeights.z;
+    skinned += getBoneMatrix(boneIndices.w) * bindVertex * boneWeights.w;
+    return (skinSpaceMatrix * vec4(skinned.xyz, 1.0)).xyz;
+  }
+`
+
+export const skinningParsVertex = /* glsl */ `
+  ${boneTexturePars}
+
+  attribute vec4 skinIndex;
+  attribute vec4 skinWeight;
+
+  vec3 getSkinnedPosition(vec3 position) {
+    return skinPosition(position, skinIndex, skinWeight);
+  }
+`
+
+export function createParticleSkin(
+  skeletons: THREE.Skeleton[],
+): ParticleSkin | null {
+  if (skeletons.length === 0) return null
+
+  const boneOffsets: number[] = []
+  let boneCount = 0
+  for (const skeleton of skeletons) {
+    boneOffsets.push(boneCount)
+    boneCount += skeleton.bones.length
+  }
+
+  // 4 texels per matrix, square power-of-two texture like Skeleton.computeBoneTexture
+  let size = Math.sqrt(boneCount * 4)
+  size = Math.max(THREE.MathUtils.ceilPowerOfTwo(size), 4)
+
+  const boneMatrices = new Float32Array(size * size * 4)
+  const boneTexture = new THREE.DataTexture(
+    boneMatrices,
+    size,
+    size,
+    THREE.RGBAFormat,
+    THREE.FloatType,
+  )
+  boneTexture.needsUpdate = true
+
+  return { skeletons, boneOffsets, boneMatrices, boneTexture }
+}
+
+export function updateParticleSkin(skin: ParticleSkin) {
+  for (let s = 0; s < skin.skeletons.length; s++) {
+    const skeleton = skin.skeletons[s]
+    skeleton.update()
+    // boneMatrices is padded once the renderer builds the skeleton's own texture
+    skin.boneMatrices.set(
+      skeleton.boneMatrices.subarray(0, skeleton.bones.length * 16),
+      skin.boneOffsets[s] * 16,
+    )
+  }
+  skin.boneTexture.needsUpdate = true
+}
+
+export function disposeParticleSkin(skin: ParticleSkin) {
+  skin.boneTexture.dispose()
+}
+
+const _bindVertex = new THREE.Vector3()
+const _boneVertex = new THREE.Vector3()
+const _boneMatrix = new THREE.Matrix4()
+
+// CPU mirror of getSkinnedPosition, for code that needs particle positions
+// outside the vertex shader
+export function getSkinnedPosition(
+  skin: ParticleSkin,
+  geometry: THREE.BufferGeometry,
+  index: number,
+  skinSpaceMatrix: THREE.Matrix4,
+  target: THREE.Vector3,
+) {
+  const originalPosAttr = geometry.getAttribute(
+    'originalPosition',
+  ) as THREE.BufferAttribute
+  const skinIndexAttr = geometry.getAttribute(
+    'skinIndex',
+  ) as THREE.BufferAttribute
+  const skinWeightAttr = geometry.getAttribute(
+    'skinWeight',
+  ) as THREE.BufferAttribute
+
+  target.fromBufferAttribute(originalPosAttr, index)
+
+  let totalWeight = 0
+  for (let j = 0; j < 4; j++)
+    totalWeight += skinWeightAttr.getComponent(index, j)
+  if (totalWeight === 0) return target
+
+  _bindVertex.copy(target)
+  target.set(0, 0, 0)
+
+  for (let j = 0; j < 4; j++) {
+    const weight = skinWeightAttr.getComponent(index, j)
+    if (weight === 0) continue
+
+    _boneMatrix.fromArray(
+      skin.boneMatrices,
+      skinIndexAttr.getComponent(index, j) * 16,
+    )
+    _boneVertex.copy(_bindVertex).applyMatrix4(_boneMatrix)
+    target.addScaledVector(_boneVertex, weight)
+  }
+
+  return target.applyMatrix4(skinSpaceMatrix)
+}
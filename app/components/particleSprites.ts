@@ -0,0 +1,87 @@
+import * as THREE from 'three'
+
+export type SpriteShape = 'circle' | 'square' | 'ring' | 'glow'
+
+export type ParticleBlending = 'normal' | 'additive' | 'multiply'
+
+export const SPRITE_SHAPES: Record<SpriteShape, number> = {
+  circle: 0,
+  square: 1,
+  ring: 2,
+  glow: 3,
+}
+
+export const PARTICLE_BLENDINGS: Record<ParticleBlending, number> = {
+  normal: 0,
+  additive: 1,
+  multiply: 2,
+}
+
+export const spriteParsFragment = /* glsl */ `
+  uniform int spriteShape;
+  uniform bool useSpriteTexture;
+  uniform sampler2D spriteTexture;
+  uniform vec2 spriteAtlas;
+  uniform int blendMode;
+
+  varying float vRotation;
+  varying float vFrame;
+
+  // Sprite coverage at this fragment, rgb tints the particle color
+  vec4 getSprite() {
+    vec2 uv = gl_PointCoord - vec2(0.5);
+    float s = sin(vRotation);
+    float c = cos(vRotation);
+    uv = mat2(c, s, -s, c) * uv;
+
+    if (useSpriteTexture) {
+      uv += vec2(0.5);
+      if (uv.x < 0.0 || uv.x > 1.0 || uv.y < 0.0 || uv.y > 1.0) return vec4(0.0);
+      // Atlas cells count left to right, top to bottom
+      vec2 cell = vec2(mod(vFrame, spriteAtlas.x), floor(vFrame / spriteAtlas.x));
+      vec2 atlasUv = vec2(
+        (cell.x + uv.x) / spriteAtlas.x,
+        1.0 - (cell.y + uv.y) / spriteAtlas.y
+      );
+      return texture2D(spriteTexture, atlasUv);
+    }
+
+    float dist = length(uv);
+    float intensity = 0.0;
+    if (spriteShape == 1) {
+      float edge = max(abs(uv.x), abs(uv.y));
+      intensity = 1.0 - smoothstep(0.42, 0.5, edge);
+    } else if (spriteShape == 2) {
+      intensity = 1.0 - smoothstep(0.0, 0.08, abs(dist - 0.38));
+    } else if (spriteShape == 3) {
+      intensity = exp(-dist * dist * 18.0) * (1.0 - smoothstep(0.45, 0.5, dist));
+    } else if (dist <= 0.5) {
+      intensity = pow(1.0 - (dist * 2.0), 2.0);
+    }
+    return vec4(vec3(1.0), intensity);
+  }
+
+  // Output for the chosen blending, so particles read on light and dark pages
+  vec4 blendParticle(vec3 color, float alpha) {
+    if (blendMode == 1) return vec4(color * alpha, alpha);
+    if (blendMode == 2) return vec4(mix(vec3(1.0), color, alpha), alpha);
+    return vec4(color, alpha);
+  }
+`
+
+export function getThreeBlending(blending: ParticleBlending) {
+  switch (blending) {
+    case 'normal':
+      return THREE.NormalBlending
+    case 'multiply':
+      return THREE.MultiplyBlending
+    default:
+      return THREE.AdditiveBlending
+  }
+}
+
+export function loadSpriteTexture(url: string) {
+  const texture = new THREE.TextureLoader().load(url)
+  texture.colorSpace = THREE.SRGBColorSpace
+  return texture
+}
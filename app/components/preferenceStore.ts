@@ -0,0 +1,76 @@
+// External stores for useSyncExternalStore: a choice remembered in
+// localStorage, and a media query the OS controls
+
+export interface PreferenceStore<T> {
+  subscribe: (listener: () => void) => () => void
+  get: () => T
+}
+
+// The choice lives in memory, and localStorage only carries it across
+// visits, so it still applies when storage is unavailable
+export function createStoredPreference<T extends string>(
+  key: string,
+  values: readonly T[],
+  fallback: T,
+): PreferenceStore<T> & { set: (value: T) => void } {
+  const listeners = new Set<() => void>()
+  // Read from storage on first use, which is client-only
+  let current: T | null = null
+
+  const read = () => {
+    try {
+      const stored = localStorage.getItem(key)
+      return values.find((value) => value === stored) ?? fallback
+    } catch {
+      return fallback
+    }
+  }
+
+  // Other tabs
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== key && event.key !== null) return
+    current = read()
+    listeners.forEach((listener) => listener())
+  }
+
+  return {
+    subscribe(listener) {
+      if (listeners.size === 0) window.addEventListener('storage', onStorage)
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+        if (listeners.size === 0) {
+          window.removeEventListener('storage', onStorage)
+        }
+      }
+    },
+    get() {
+      current ??= read()
+      return current
+    },
+    set(value) {
+      current = value
+      try {
+        if (value === fallback) {
+          localStorage.removeItem(key)
+        } else {
+          localStorage.setItem(key, value)
+        }
+      } catch {
+        // Private browsing or a full quota, the choice just won't persist
+      }
+      listeners.forEach((listener) => listener())
+    },
+  }
+}
+
+export function createMediaQueryStore(query: string): PreferenceStore<boolean> {
+  return {
+    subscribe(listener) {
+      const media = window.matchMedia(query)
+      media.addEventListener('change', listener)
+      return () => media.removeEventListener('change', listener)
+    },
+    get: () => window.matchMedia(query).matches,
+  }
+}
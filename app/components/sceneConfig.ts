@@ -0,0 +1,434 @@
+import { easings, type EasingName } from './easing'
+import type { ModelProps } from './Model'
+import type { ParticleMapping } from './particleMorph'
+import type { ScenePerformanceBudget } from './adaptiveQuality'
+import type { LocomotionTuning } from './locomotion'
+
+type Vec3 = [number, number, number]
+
+// The JSON-expressible subset of Model's props. Particle density and
+// physics rate come from the scene's performance budget, reduced motion
+// from the user's preference, ground speed from whatever moves the model, and
+// pausing from whether the scene is in view
+export type ModelConfig = Omit<
+  ModelProps,
+  | 'ref'
+  | 'onAnimationLoop'
+  | 'onAnimationFinished'
+  | 'transition'
+  | 'particleDensity'
+  | 'physicsRate'
+  | 'reducedMotion'
+  | 'groundSpeed'
+  | 'paused'
+> & {
+  transition?: {
+    duration?: number
+    easing?: EasingName
+    mapping?: Exclude<ParticleMapping, (...args: never[]) => unknown>
+  } | null
+}
+
+export interface SceneModelConfig {
+  position?: Vec3
+  scale?: number
+  model: ModelConfig
+  // For scenes that walk the model around, over DEFAULT_LOCOMOTION_TUNING
+  locomotion?: Partial<LocomotionTuning> | null
+}
+
+export interface CameraConfig {
+  position: Vec3
+  fov?: number
+  near?: number
+  far?: number
+}
+
+export interface ControlsConfig {
+  enabled?: boolean
+  enableDamping?: boolean
+  dampingFactor?: number
+  target?: Vec3
+}
+
+export type LightConfig =
+  | { type: 'ambient'; intensity?: number; color?: string }
+  | {
+      type: 'directional' | 'point'
+      position: Vec3
+      intensity?: number
+      color?: string
+    }
+
+export interface FogConfig {
+  color: string
+  near: number
+  far: number
+}
+
+export interface SceneConfig {
+  // What the canvas shows, for screen readers
+  description: string
+  camera: CameraConfig
+  controls?: ControlsConfig | null
+  lights?: LightConfig[]
+  fog?: FogConfig | null
+  performance?: Partial<ScenePerformanceBudget> | null
+  models: SceneModelConfig[]
+}
+
+export class SceneConfigError extends Error {
+  constructor(
+    name: string,
+    readonly issues: string[],
+  ) {
+    super(`Invalid scene config "${name}":\n  ${issues.join('\n  ')}`)
+    this.name = 'SceneConfigError'
+  }
+}
+
+// Each check reports problems at `path` instead of throwing, so one pass
+// lists everything wrong with a config
+type Check = (value: unknown, path: string, issues: string[]) => void
+
+// The value itself where it's short, so a message says what to change
+function describe(value: unknown) {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'an array'
+  if (typeof value === 'string') return `"${value}"`
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value)
+  }
+  return typeof value
+}
+
+const string: Check = (value, path, issues) => {
+  if (typeof value !== 'string') {
+    issues.push(`${path}: expected a string, got ${describe(value)}`)
+  }
+}
+
+const number: Check = (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push(`${path}: expected a number, got ${describe(value)}`)
+  }
+}
+
+const positive: Check = (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    issues.push(`${path}: expected a number above 0, got ${describe(value)}`)
+  }
+}
+
+// Counts and strides, where 0 or a fraction would hang or corrupt sampling
+const positiveInteger: Check = (value, path, issues) => {
+  if (!Number.isInteger(value) || (value as number) <= 0) {
+    issues.push(
+      `${path}: expected a whole number above 0, got ${describe(value)}`,
+    )
+  }
+}
+
+const boolean: Check = (value, path, issues) => {
+  if (typeof value !== 'boolean') {
+    issues.push(`${path}: expected true or false, got ${describe(value)}`)
+  }
+}
+
+function oneOf(...options: readonly string[]): Check {
+  return (value, path, issues) => {
+    if (typeof value !== 'string' || !options.includes(value)) {
+      issues.push(
+        `${path}: expected one of ${options.map((o) => `"${o}"`).join(', ')}, got ${describe(value)}`,
+      )
+    }
+  }
+}
+
+function tuple(length: number): Check {
+  return (value, path, issues) => {
+    if (
+      !Array.isArray(value) ||
+      value.length !== length ||
+      value.some((n) => typeof n !== 'number' || !Number.isFinite(n))
+    ) {
+      issues.push(
+        `${path}: expected an array of ${length} numbers, got ${describe(value)}`,
+      )
+    }
+  }
+}
+
+function nullable(check: Check): Check {
+  return (value, path, issues) => {
+    if (value !== null) check(value, path, issues)
+  }
+}
+
+function arrayOf(check: Check): Check {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path}: expected an array, got ${describe(value)}`)
+      return
+    }
+    value.forEach((item, i) => check(item, `${path}[${i}]`, issues))
+  }
+}
+
+// Unknown keys are errors too, they're usually typos
+function shape(checks: Record<string, Check>, required: string[] = []): Check {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push(`${path}: expected an object, got ${describe(value)}`)
+      return
+    }
+
+    const record = value as Record<string, unknown>
+    for (const key of required) {
+      if (record[key] === undefined) issues.push(`${path}.${key}: is required`)
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const check = checks[key]
+      if (!check) {
+        issues.push(`${path}.${key}: unknown property`)
+      } else if (item !== undefined) {
+        check(item, `${path}.${key}`, issues)
+      }
+    }
+  }
+}
+
+const vec3 = tuple(3)
+
+const effectorChecks = {
+  position: (value: unknown, path: string, issues: string[]) => {
+    if (value !== 'pointer') vec3(value, path, issues)
+  },
+  radius: number,
+  strength: number,
+  falloff: oneOf('constant', 'linear', 'quadratic', 'smooth'),
+}
+
+const effectorTypes = ['attractor', 'repulsor', 'vortex', 'wind', 'shockwave']
+
+const effector: Check = (value, path, issues) => {
+  const type = (value as { type?: unknown } | null)?.type
+  const checks: Record<string, Check> = { type: string, ...effectorChecks }
+  if (type === 'vortex') {
+    checks.axis = vec3
+  } else if (type === 'wind') {
+    checks.direction = vec3
+  } else if (type === 'shockwave') {
+    checks.duration = number
+    checks.thickness = positive
+  } else {
+    oneOf(...effectorTypes)(type, `${path}.type`, issues)
+  }
+
+  const required = type === 'wind' ? ['type', 'direction'] : ['type']
+  shape(checks, required)(value, path, issues)
+}
+
+// Blending divides by each gait's speed and the gaps between them
+const gaits: Check = (value, path, issues) => {
+  arrayOf(
+    shape(
+      {
+        clip: string,
+        speed: positive,
+        minTimeScale: number,
+        maxTimeScale: number,
+      },
+      ['clip', 'speed'],
+    ),
+  )(value, path, issues)
+  if (!Array.isArray(value)) return
+
+  const seen = new Set<unknown>()
+  value.forEach((gait, i) => {
+    const speed = (gait as { speed?: unknown } | null)?.speed
+    if (typeof speed !== 'number') return
+    if (seen.has(speed)) {
+      issues.push(`${path}[${i}].speed: another gait already uses ${speed}`)
+    }
+    seen.add(speed)
+  })
+}
+
+const modelChecks = {
+  modelPath: string,
+  format: oneOf('gltf', 'obj', 'fbx', 'ply', 'xyz'),
+  particleColor: string,
+  particleSize: number,
+  particleSizeVariance: number,
+  particleRotationVariance: number,
+  spriteShape: oneOf('circle', 'square', 'ring', 'glow'),
+  spriteTexture: nullable(string),
+  spriteAtlas: tuple(2),
+  particleBlending: oneOf('normal', 'additive', 'multiply'),
+  focusDistance: number,
+  aperture: number,
+  depthFade: nullable(tuple(2)),
+  fog: boolean,
+  sampling: oneOf('vertex', 'surface'),
+  sampleRate: positiveInteger,
+  particleCount: positiveInteger,
+  particleSeed: number,
+  animated: boolean,
+  showMesh: boolean,
+  meshMode: oneOf(
+    'standard',
+    'original',
+    'wireframe',
+    'hologram',
+    'matcap',
+    'xray',
+  ),
+  meshOpacity: number,
+  meshColor: string,
+  meshRimColor: string,
+  meshRimPower: number,
+  meshScanlines: number,
+  meshMatcap: string,
+  rotation: vec3,
+  autoRotate: boolean,
+  rotationSpeed: number,
+  interactive: boolean,
+  disperseRadius: number,
+  disperseStrength: number,
+  returnSpeed: number,
+  drift: boolean,
+  driftAmplitude: number,
+  driftFrequency: number,
+  driftSpeed: number,
+  interactionDepth: oneOf('bounds', 'plane'),
+  interactionPlane: nullable(tuple(4)),
+  physics: oneOf('auto', 'cpu', 'gpu'),
+  effectors: arrayOf(effector),
+  use3DGradient: boolean,
+  gradientColors: nullable(
+    arrayOf(shape({ color: string, position: vec3 }, ['color', 'position'])),
+  ),
+  gradientBlendPower: number,
+  gradientMode: oneOf('points', 'linear', 'radial', 'noise'),
+  gradientStops: nullable(
+    arrayOf(shape({ color: string, offset: number }, ['color', 'offset'])),
+  ),
+  gradientAxis: vec3,
+  gradientCenter: vec3,
+  gradientRadius: number,
+  gradientNoiseScale: number,
+  gradientSpeed: number,
+  colorTransitionSpeed: number,
+  playAnimation: boolean,
+  animationIndex: number,
+  clip: string,
+  crossfadeDuration: number,
+  animationTimeScale: number,
+  animationLoop: oneOf('repeat', 'once', 'pingpong'),
+  gaits: nullable(gaits),
+  lookAt: nullable(
+    shape({ bone: string, maxYaw: number, maxPitch: number, speed: number }, [
+      'bone',
+    ]),
+  ),
+  reaction: nullable(
+    shape({
+      jumpHeight: number,
+      jumpDuration: number,
+      burst: nullable(
+        shape({
+          radius: number,
+          strength: number,
+          falloff: effectorChecks.falloff,
+          duration: number,
+          thickness: positive,
+        }),
+      ),
+      clip: string,
+    }),
+  ),
+  transition: nullable(
+    shape({
+      duration: number,
+      easing: oneOf(...Object.keys(easings)),
+      mapping: oneOf('scaled', 'modulo'),
+    }),
+  ),
+} satisfies Record<keyof ModelConfig, Check>
+
+const sceneCheck = shape(
+  {
+    description: string,
+    camera: shape({ position: vec3, fov: number, near: number, far: number }, [
+      'position',
+    ]),
+    controls: nullable(
+      shape({
+        enabled: boolean,
+        enableDamping: boolean,
+        dampingFactor: number,
+        target: vec3,
+      }),
+    ),
+    lights: arrayOf((value, path, issues) => {
+      const type = (value as { type?: unknown } | null)?.type
+      if (type === 'ambient') {
+        shape({ type: string, intensity: number, color: string })(
+          value,
+          path,
+          issues,
+        )
+      } else if (type === 'directional' || type === 'point') {
+        shape(
+          { type: string, position: vec3, intensity: number, color: string },
+          ['position'],
+        )(value, path, issues)
+      } else {
+        oneOf('ambient', 'directional', 'point')(type, `${path}.type`, issues)
+      }
+    }),
+    fog: nullable(
+      shape({ color: string, near: number, far: number }, [
+        'color',
+        'near',
+        'far',
+      ]),
+    ),
+    performance: nullable(
+      shape({
+        minDensity: number,
+        minPhysicsRate: number,
+        maxPhysicsRate: number,
+      } satisfies Record<keyof ScenePerformanceBudget, Check>),
+    ),
+    models: arrayOf(
+      shape(
+        {
+          position: vec3,
+          scale: number,
+          model: shape(modelChecks, ['modelPath']),
+          locomotion: nullable(
+            shape({
+              maxSpeed: positive,
+              acceleration: positive,
+              deceleration: positive,
+              turnSpeed: positive,
+              startDistance: number,
+            } satisfies Record<keyof LocomotionTuning, Check>),
+          ),
+        },
+        ['model'],
+      ),
+    ),
+  },
+  ['description', 'camera', 'models'],
+)
+
+// Validates parsed JSON, throwing a SceneConfigError listing every problem
+export function parseSceneConfig(json: unknown, name: string): SceneConfig {
+  const issues: string[] = []
+  sceneCheck(json, name, issues)
+  if (issues.length > 0) throw new SceneConfigError(name, issues)
+  return json as SceneConfig
+}
@@ -0,0 +1,65 @@
+import * as THREE from 'three'
+
+// Where something travelling down the page is, between boxes it stops at.
+// While `from` and `to` are the same stop it's held there, and `t` is how
+// far the stop has scrolled through its hold. Otherwise it's on its way
+// from one stop to the next, `t` of the way there
+export interface Journey {
+  from: number
+  to: number
+  t: number
+}
+
+export interface JourneyRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+// A stop's hold, in the viewport positions of its top: while it's fully in
+// view, or while it covers the viewport if it's taller
+function getHold(rect: DOMRect, viewport: number) {
+  const fitted = viewport - rect.height
+  return { start: Math.max(fitted, 0), end: Math.min(fitted, 0) }
+}
+
+// Stops in page order, as their current bounding rects
+export function getJourney(stops: DOMRect[], viewport: number): Journey {
+  for (let i = 0; i < stops.length; i++) {
+    const top = stops[i].top
+    const hold = getHold(stops[i], viewport)
+    // Already scrolled past it
+    if (top < hold.end) continue
+
+    if (top <= hold.start || i === 0) {
+      const t = (hold.start - top) / Math.max(hold.start - hold.end, 1)
+      return { from: i, to: i, t: THREE.MathUtils.clamp(t, 0, 1) }
+    }
+
+    // Between the last stop's hold and this one's
+    const scrolled = getHold(stops[i - 1], viewport).end - stops[i - 1].top
+    const remaining = top - hold.start
+    return { from: i - 1, to: i, t: scrolled / (scrolled + remaining) }
+  }
+
+  const last = Math.max(stops.length - 1, 0)
+  return { from: last, to: last, t: 1 }
+}
+
+// The box between the two stops, easing in and out of each
+export function getJourneyRect(
+  stops: DOMRect[],
+  journey: Journey,
+): JourneyRect {
+  const from = stops[journey.from]
+  const to = stops[journey.to]
+  const { lerp, smoothstep } = THREE.MathUtils
+  const t = smoothstep(journey.t, 0, 1)
+  return {
+    left: lerp(from.left, to.left, t),
+    top: lerp(from.top, to.top, t),
+    width: lerp(from.width, to.width, t),
+    height: lerp(from.height, to.height, t),
+  }
+}
@@ -0,0 +1,155 @@
+import { useEffect, useRef, type RefObject } from 'react'
+import * as THREE from 'three'
+import { resolveEasing, type Easing } from './easing'
+
+type Vec3 = [number, number, number]
+
+// What 0 to 1 spans: the whole page, a section from entering at the bottom
+// to leaving at the top, or the stretch where the section is fully in view
+export type ScrollRange = 'page' | 'through' | 'visible'
+
+// `easing` shapes the segment arriving at this keyframe
+export interface Keyframe<T extends number | Vec3> {
+  at: number
+  value: T
+  easing?: Easing
+}
+
+export interface ScrollTracks {
+  position?: Keyframe<Vec3>[]
+  rotation?: Keyframe<Vec3>[]
+  scale?: Keyframe<number>[]
+  cameraPosition?: Keyframe<Vec3>[]
+  cameraTarget?: Keyframe<Vec3>[]
+  // Shader uniforms on the materials below the driven group
+  uniforms?: Record<string, Keyframe<number>[]>
+}
+
+// Written by scroll events, read and smoothed in useFrame, so scrolling
+// never re-renders React
+export interface ScrollTimeline {
+  range: ScrollRange
+  // How quickly progress catches up with the scroll position, 0 is instant
+  smoothing: number
+  target: number
+  progress: number
+  updatedAt: number
+}
+
+export function getScrollProgress(element: Element | null, range: ScrollRange) {
+  const viewport = window.innerHeight
+
+  if (range === 'page' || !element) {
+    const scrollable = document.documentElement.scrollHeight - viewport
+    return scrollable > 0
+      ? THREE.MathUtils.clamp(window.scrollY / scrollable, 0, 1)
+      : 0
+  }
+
+  const rect = element.getBoundingClientRect()
+  const progress =
+    range === 'through'
+      ? (viewport - rect.top) / (viewport + rect.height)
+      : (viewport - rect.bottom) / Math.max(viewport - rect.height, 1)
+  return THREE.MathUtils.clamp(progress, 0, 1)
+}
+
+export function createScrollTimeline(
+  range: ScrollRange,
+  smoothing: number,
+): ScrollTimeline {
+  return { range, smoothing, target: 0, progress: 0, updatedAt: -1 }
+}
+
+// Once per frame, however many components read the timeline
+export function advanceScrollTimeline(
+  timeline: ScrollTimeline,
+  delta: number,
+  time: number,
+) {
+  if (timeline.updatedAt === time) return timeline.progress
+  timeline.updatedAt = time
+  timeline.progress =
+    timeline.smoothing > 0
+      ? THREE.MathUtils.damp(
+          timeline.progress,
+          timeline.target,
+          timeline.smoothing,
+          delta,
+        )
+      : timeline.target
+  return timeline.progress
+}
+
+// Keyframes around `progress` and the eased blend between them
+function findSegment<T extends number | Vec3>(
+  keyframes: Keyframe<T>[],
+  progress: number,
+) {
+  const next = keyframes.findIndex((keyframe) => keyframe.at >= progress)
+  if (next <= 0) {
+    const keyframe = keyframes[next < 0 ? keyframes.length - 1 : 0]
+    return { from: keyframe, to: keyframe, alpha: 0 }
+  }
+
+  const from = keyframes[next - 1]
+  const to = keyframes[next]
+  const t = (progress - from.at) / Math.max(to.at - from.at, 1e-6)
+  return { from, to, alpha: resolveEasing(to.easing ?? 'linear')(t) }
+}
+
+export function sampleNumber(keyframes: Keyframe<number>[], progress: number) {
+  const { from, to, alpha } = findSegment(keyframes, progress)
+  return THREE.MathUtils.lerp(from.value, to.value, alpha)
+}
+
+export function sampleVector(
+  keyframes: Keyframe<Vec3>[],
+  progress: number,
+  target: THREE.Vector3,
+) {
+  const { from, to, alpha } = findSegment(keyframes, progress)
+  return target.set(
+    THREE.MathUtils.lerp(from.value[0], to.value[0], alpha),
+    THREE.MathUtils.lerp(from.value[1], to.value[1], alpha),
+    THREE.MathUtils.lerp(from.value[2], to.value[2], alpha),
+  )
+}
+
+// Progress of a section, or of the page without one. Returned as a ref so
+// scroll handlers and useFrame can write to it outside React
+export function useScrollTimeline(
+  sectionRef: RefObject<Element | null> | null,
+  {
+    range = 'through',
+    smoothing = 0,
+  }: Partial<Pick<ScrollTimeline, 'range' | 'smoothing'>> = {},
+) {
+  const timelineRef = useRef(createScrollTimeline(range, smoothing))
+
+  useEffect(() => {
+    const timeline = timelineRef.current
+    timeline.range = range
+    timeline.smoothing = smoothing
+
+    const update = () => {
+      timeline.target = getScrollProgress(
+        sectionRef?.current ?? null,
+        timeline.range,
+      )
+    }
+
+    // Start where the page already is, without easing in from 0
+    update()
+    timeline.progress = timeline.target
+
+    window.addEventListener('scroll', update, { passive: true })
+    window.addEventListener('resize', update)
+    return () => {
+      window.removeEventListener('scroll', update)
+      window.removeEventListener('resize', update)
+    }
+  }, [sectionRef, range, smoothing])
+
+  return timelineRef
+}
@@ -0,0 +1,65 @@
+import * as THREE from 'three'
+import type { ParticleBlending } from './particleSprites'
+
+export type Theme = 'light' | 'dark'
+
+// 'system' follows prefers-color-scheme
+export type ThemePreference = Theme | 'system'
+
+export const THEME_STORAGE_KEY = 'theme'
+
+// Colors the 3D scenes take from the theme
+export interface ScenePalette {
+  particleColor: string
+  gradientColors: Array<{ color: string; position: [number, number, number] }>
+  meshColor: string
+  background: string
+  // Additive glow washes out on a light background
+  particleBlending: ParticleBlending
+}
+
+export const SCENE_PALETTES: Record<Theme, ScenePalette> = {
+  dark: {
+    particleColor: '#00ffff',
+    gradientColors: [
+      { color: '#ff00ff', position: [0, 0, 1] },
+      { color: '#00ffff', position: [1, 0, 1] },
+    ],
+    meshColor: '#F3F3F3',
+    background: '#0f172a',
+    particleBlending: 'additive',
+  },
+  light: {
+    particleColor: '#FF4800',
+    gradientColors: [
+      { color: '#FF4800', position: [1, 0, 0] },
+      { color: '#003BDD', position: [0, 0, 1] },
+    ],
+    meshColor: '#1e293b',
+    background: '#f8fafc',
+    particleBlending: 'normal',
+  },
+}
+
+// Runs before hydration so the page never flashes the wrong theme
+export const themeInitScript = `(() => {
+  try {
+    const stored = localStorage.getItem('${THEME_STORAGE_KEY}')
+    const dark = stored === 'dark' ||
+      (stored !== 'light' && matchMedia('(prefers-color-scheme: dark)').matches)
+    document.documentElement.classList.toggle('dark', dark)
+    document.documentElement.style.colorScheme = dark ? 'dark' : 'light'
+  } catch {}
+})()`
+
+// Eases a color toward the palette, 0 speed snaps
+export function dampColor(
+  current: THREE.Color,
+  target: THREE.Color,
+  speed: number,
+  delta: number,
+) {
+  return speed > 0
+    ? current.lerp(target, 1 - Math.exp(-speed * delta))
+    : current.copy(target)
+}
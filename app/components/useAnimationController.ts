@@ -0,0 +1,150 @@
+import { useEffect, useMemo, useRef } from 'react'
+import * as THREE from 'three'
+
+export type AnimationLoop = 'repeat' | 'once' | 'pingpong'
+
+export interface PlayClipOptions {
+  // Seconds to crossfade from the current clip
+  fade?: number
+  timeScale?: number
+  weight?: number
+  loop?: AnimationLoop
+}
+
+export interface AnimationEvents {
+  onLoop?: (clip: string) => void
+  onFinished?: (clip: string) => void
+}
+
+// Plays a model's clips by name on one mixer, crossfading between them
+export interface AnimationController {
+  mixer: THREE.AnimationMixer
+  clips: string[]
+  getCurrentClip: () => string | null
+  getAction: (name: string) => THREE.AnimationAction | null
+  play: (
+    name: string,
+    options?: PlayClipOptions,
+  ) => THREE.AnimationAction | null
+  stop: (fade?: number) => void
+  setTimeScale: (timeScale: number, name?: string) => void
+  setWeight: (name: string, weight: number) => void
+}
+
+function applyLoop(action: THREE.AnimationAction, loop: AnimationLoop) {
+  if (loop === 'once') {
+    action.setLoop(THREE.LoopOnce, 1)
+    action.clampWhenFinished = true
+  } else {
+    action.setLoop(
+      loop === 'pingpong' ? THREE.LoopPingPong : THREE.LoopRepeat,
+      Infinity,
+    )
+    action.clampWhenFinished = false
+  }
+}
+
+export function createAnimationController(
+  root: THREE.Object3D,
+  clips: THREE.AnimationClip[],
+): AnimationController {
+  const mixer = new THREE.AnimationMixer(root)
+  const actions = new Map(
+    clips.map((clip) => [clip.name, mixer.clipAction(clip)]),
+  )
+  let current: string | null = null
+
+  const getAction = (name: string) => actions.get(name) ?? null
+
+  const stop = (fade = 0) => {
+    const action = current ? getAction(current) : null
+    current = null
+    if (!action) return
+    if (fade > 0) action.fadeOut(fade)
+    else action.stop()
+  }
+
+  const play = (name: string, options: PlayClipOptions = {}) => {
+    const action = getAction(name)
+    if (!action) {
+      console.warn(`Model: no animation clip named "${name}"`)
+      return null
+    }
+
+    const { fade = 0, timeScale = 1, weight = 1, loop = 'repeat' } = options
+    applyLoop(action, loop)
+    action.timeScale = timeScale
+    action.weight = weight
+
+    // Already playing, only its settings change
+    if (name === current) return action
+
+    stop(fade)
+    action.reset()
+    if (fade > 0) action.fadeIn(fade)
+    action.play()
+    current = name
+    return action
+  }
+
+  return {
+    mixer,
+    clips: clips.map((clip) => clip.name),
+    getCurrentClip: () => current,
+    getAction,
+    play,
+    stop,
+    setTimeScale: (timeScale, name) => {
+      if (name === undefined) mixer.timeScale = timeScale
+      else getAction(name)?.setEffectiveTimeScale(timeScale)
+    },
+    setWeight: (name, weight) => {
+      const action = getAction(name)
+      if (!action) return
+      action.enabled = true
+      action.weight = weight
+      if (!action.isRunning()) action.play()
+    },
+  }
+}
+
+// One controller per loaded model, forwarding the mixer's loop and finished
+// events by clip name
+export function useAnimationController(
+  root: THREE.Object3D,
+  clips: THREE.AnimationClip[],
+  events: AnimationEvents = {},
+) {
+  const eventsRef = useRef(events)
+
+  useEffect(() => {
+    eventsRef.current = events
+  })
+
+  const controller = useMemo(
+    () => createAnimationController(root, clips),
+    [root, clips],
+  )
+
+  useEffect(() => {
+    const { mixer } = controller
+
+    const handleLoop = (event: { action: THREE.AnimationAction }) => {
+      eventsRef.current.onLoop?.(event.action.getClip().name)
+    }
+    const handleFinished = (event: { action: THREE.AnimationAction }) => {
+      eventsRef.current.onFinished?.(event.action.getClip().name)
+    }
+
+    mixer.addEventListener('loop', handleLoop)
+    mixer.addEventListener('finished', handleFinished)
+    return () => {
+      mixer.removeEventListener('loop', handleLoop)
+      mixer.removeEventListener('finished', handleFinished)
+      mixer.stopAllAction()
+      mixer.uncacheRoot(root)
+    }
+  }, [controller, root])
+
+  return controller
+}
@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react'
+import * as THREE from 'three'
+import { usePointerSurface } from './SceneCanvas'
+
+// The latest pointer over the scene, for behaviours that follow it
+export interface CanvasPointer {
+  ndc: THREE.Vector2
+  // Over the scene: hovering with a mouse, or the last touch until it's
+  // cancelled
+  active: boolean
+  // Clicks and taps since the consumer last emptied the list
+  presses: THREE.Vector2[]
+}
+
+export function useCanvasPointer(enabled = true) {
+  const surface = usePointerSurface()
+  const pointerRef = useRef<CanvasPointer>({
+    ndc: new THREE.Vector2(),
+    active: false,
+    presses: [],
+  })
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const pointer = pointerRef.current
+
+    const updatePointer = (event: PointerEvent) => {
+      const rect = surface.getBoundingClientRect()
+      pointer.ndc.set(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1,
+      )
+      pointer.active = true
+      if (event.type === 'pointerdown')
+        pointer.presses.push(pointer.ndc.clone())
+    }
+
+    // Touch fires pointerleave on every lift, so a tap stays put until the
+    // finger scrolls the page instead
+    const releasePointer = (event: PointerEvent) => {
+      if (event.type === 'pointerleave' && event.pointerType !== 'mouse') return
+      pointer.active = false
+    }
+
+    surface.addEventListener('pointerdown', updatePointer)
+    surface.addEventListener('pointermove', updatePointer)
+    surface.addEventListener('pointercancel', releasePointer)
+    surface.addEventListener('pointerleave', releasePointer)
+    return () => {
+      surface.removeEventListener('pointerdown', updatePointer)
+      surface.removeEventListener('pointermove', updatePointer)
+      surface.removeEventListener('pointercancel', releasePointer)
+      surface.removeEventListener('pointerleave', releasePointer)
+      pointer.active = false
+      pointer.presses.length = 0
+    }
+  }, [enabled, surface])
+
+  return pointerRef
+}
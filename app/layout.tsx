@@ -1,6 +1,11 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import { ThemeProvider } from "./components/ThemeProvider";
+import { ThemeToggle } from "./components/ThemeToggle";
+import { ReducedMotionProvider } from "./components/ReducedMotionProvider";
+import { MotionToggle } from "./components/MotionToggle";
+import { themeInitScript } from "./components/theme";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -23,11 +28,21 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    // The init script sets the theme class before React hydrates
+    <html lang="en" suppressHydrationWarning>
+      <head>
+        <script dangerouslySetInnerHTML={{ __html: themeInitScript }} />
+      </head>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <ThemeProvider>
+          <ReducedMotionProvider>
+            <ThemeToggle />
+            <MotionToggle />
+            {children}
+          </ReducedMotionProvider>
+        </ThemeProvider>
       </body>
     </html>
   );
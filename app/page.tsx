@@ -1,10 +1,12 @@
 import Scene from './components/Scene'
 import RunningCatScene from './components/RunningCatScene'
+import { SceneCanvas } from './components/SceneCanvas'
 import { ArrowRight, Star } from 'lucide-react'
 
 export default function Home() {
   return (
-    <>
+    // Every 3D section draws into this one canvas
+    <SceneCanvas>
       <section
         id="home"
         className="min-h-screen flex items-center pt-20 sm:pt-24 md:pt-28 bg-gradient-to-br from-slate-50 to-orange-50 dark:from-slate-900 dark:to-slate-800"
@@ -116,7 +118,7 @@ export default function Home() {
           </p>
         </div>
         <div className="w-full px-4 sm:px-6 lg:px-8">
-          <RunningCatScene />
+          <RunningCatScene from="hero-cat" to="experience-cat" />
         </div>
       </section>
 
@@ -131,9 +133,12 @@ export default function Home() {
                 Showcasing my professional journey
               </p>
             </div>
+
+            {/* Right Column - where the cat ends up */}
+            <div id="experience-cat" className="order-1 lg:order-2 h-[300px] sm:h-[400px] lg:h-[500px] w-full" />
           </div>
         </div>
       </section>
-    </>
+    </SceneCanvas>
   )
 }
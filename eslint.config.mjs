@@ -12,6 +12,9 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Vendored glTF decoders copied from three/examples/jsm/libs
+    "public/draco/**",
+    "public/basis/**",
   ]),
 ]);
 